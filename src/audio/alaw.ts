@@ -0,0 +1,47 @@
+// Segment end points for the 13-bit magnitude (G.711 reference encoder)
+const ALAW_SEGMENT_END = [0x1f, 0x3f, 0x7f, 0xff, 0x1ff, 0x3ff, 0x7ff, 0xfff];
+
+function buildAlawDecodeTable(): Int16Array {
+  const table = new Int16Array(256);
+  for (let i = 0; i < 256; i++) {
+    const a = i ^ 0x55;
+    const segment = (a & 0x70) >> 4;
+    let t = (a & 0x0f) << 4;
+    if (segment === 0) t += 8;
+    else if (segment === 1) t += 0x108;
+    else t = (t + 0x108) << (segment - 1);
+    table[i] = a & 0x80 ? t : -t;
+  }
+  return table;
+}
+
+const ALAW_DECODE_TABLE = buildAlawDecodeTable();
+
+// G.711 A-law bytes to 16-bit linear PCM
+export function decodeAlaw(bytes: Uint8Array): Int16Array {
+  const out = new Int16Array(bytes.length);
+  for (let i = 0; i < bytes.length; i++) out[i] = ALAW_DECODE_TABLE[bytes[i]];
+  return out;
+}
+
+export function encodeAlawSample(sample: number): number {
+  let pcm = sample >> 3;
+  let mask = 0xd5;
+  if (pcm < 0) {
+    pcm = -pcm - 1;
+    mask = 0x55;
+  }
+  let segment = 0;
+  while (segment < 8 && pcm > ALAW_SEGMENT_END[segment]) segment++;
+  if (segment >= 8) return 0x7f ^ mask;
+  const shift = segment < 2 ? 1 : segment;
+  return ((segment << 4) | ((pcm >> shift) & 0x0f)) ^ mask;
+}
+
+// 16-bit linear PCM to G.711 A-law bytes
+export function encodeAlaw(samples: Int16Array): Uint8Array {
+  const out = new Uint8Array(samples.length);
+  for (let i = 0; i < samples.length; i++)
+    out[i] = encodeAlawSample(samples[i]);
+  return out;
+}
@@ -0,0 +1,35 @@
+export function energy(samples: Int16Array): number {
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) sum += samples[i] * samples[i];
+  return sum;
+}
+
+export function rms(samples: Int16Array): number {
+  if (samples.length === 0) return 0;
+  return Math.sqrt(energy(samples) / samples.length);
+}
+
+// 0 dBFS is a full-scale square wave; silence is -Infinity
+export function rmsToDbfs(value: number): number {
+  return value > 0 ? 20 * Math.log10(value / 32768) : -Infinity;
+}
+
+/**
+ * Scales a frame toward a target RMS, never amplifying more than maxGain
+ * (so background noise isn't boosted) and clipping at full scale.
+ */
+export function normalizeLevel(
+  samples: Int16Array,
+  targetRms: number,
+  maxGain = 4
+): Int16Array {
+  const level = rms(samples);
+  if (level === 0) return samples;
+  const gain = Math.min(maxGain, targetRms / level);
+  const out = new Int16Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    const v = Math.round(samples[i] * gain);
+    out[i] = v > 32767 ? 32767 : v < -32768 ? -32768 : v;
+  }
+  return out;
+}
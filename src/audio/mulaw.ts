@@ -0,0 +1,52 @@
+const MULAW_BIAS = 0x84;
+
+function buildMulawDecodeTable(): Int16Array {
+  const table = new Int16Array(256);
+  for (let i = 0; i < 256; i++) {
+    const u = ~i & 0xff;
+    const sign = u & 0x80;
+    const exponent = (u >> 4) & 0x07;
+    const mantissa = u & 0x0f;
+    const magnitude = (((mantissa << 3) + MULAW_BIAS) << exponent) - MULAW_BIAS;
+    table[i] = sign ? -magnitude : magnitude;
+  }
+  return table;
+}
+
+const MULAW_DECODE_TABLE = buildMulawDecodeTable();
+
+// G.711 μ-law bytes to 16-bit linear PCM
+export function decodeMulaw(bytes: Uint8Array): Int16Array {
+  const out = new Int16Array(bytes.length);
+  for (let i = 0; i < bytes.length; i++) out[i] = MULAW_DECODE_TABLE[bytes[i]];
+  return out;
+}
+
+// Segment end points for the 14-bit magnitude (G.711 reference encoder)
+const MULAW_SEGMENT_END = [
+  0x3f, 0x7f, 0xff, 0x1ff, 0x3ff, 0x7ff, 0xfff, 0x1fff,
+];
+const MULAW_CLIP = 8159;
+
+export function encodeMulawSample(sample: number): number {
+  let pcm = sample >> 2;
+  let mask = 0xff;
+  if (pcm < 0) {
+    pcm = -pcm;
+    mask = 0x7f;
+  }
+  if (pcm > MULAW_CLIP) pcm = MULAW_CLIP;
+  pcm += MULAW_BIAS >> 2;
+  let segment = 0;
+  while (segment < 8 && pcm > MULAW_SEGMENT_END[segment]) segment++;
+  if (segment >= 8) return 0x7f ^ mask;
+  return ((segment << 4) | ((pcm >> (segment + 1)) & 0x0f)) ^ mask;
+}
+
+// 16-bit linear PCM to G.711 μ-law bytes
+export function encodeMulaw(samples: Int16Array): Uint8Array {
+  const out = new Uint8Array(samples.length);
+  for (let i = 0; i < samples.length; i++)
+    out[i] = encodeMulawSample(samples[i]);
+  return out;
+}
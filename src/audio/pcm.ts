@@ -0,0 +1,15 @@
+// OpenAI's pcm16 is 16-bit little-endian mono
+export function pcm16ToBytes(samples: Int16Array): Uint8Array {
+  const out = new Uint8Array(samples.length * 2);
+  const view = new DataView(out.buffer);
+  for (let i = 0; i < samples.length; i++)
+    view.setInt16(i * 2, samples[i], true);
+  return out;
+}
+
+export function bytesToPcm16(bytes: Uint8Array): Int16Array {
+  const out = new Int16Array(bytes.length >> 1);
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  for (let i = 0; i < out.length; i++) out[i] = view.getInt16(i * 2, true);
+  return out;
+}
@@ -0,0 +1,56 @@
+export type SampleRate = 8000 | 16000 | 24000;
+
+/**
+ * Streaming resampler for 16-bit PCM: linear interpolation, with a moving
+ * average in front when downsampling to keep aliasing down. State carries
+ * across calls, so consecutive 20 ms frames join without clicks.
+ */
+export function createResampler(fromRate: SampleRate, toRate: SampleRate) {
+  const step = fromRate / toRate;
+  // Moving-average width for the anti-aliasing filter (1 = off)
+  const taps = toRate < fromRate ? Math.round(step) : 1;
+  const history = new Int16Array(taps);
+  let historyPos = 0;
+  let historySum = 0;
+  let last = 0; // final filtered sample of the previous frame
+  let pos = 0; // next output position; 0 is `last`, k is input sample k - 1
+
+  function filter(input: Int16Array): Int16Array {
+    if (taps === 1) return input;
+    const out = new Int16Array(input.length);
+    for (let i = 0; i < input.length; i++) {
+      historySum += input[i] - history[historyPos];
+      history[historyPos] = input[i];
+      historyPos = (historyPos + 1) % taps;
+      out[i] = Math.round(historySum / taps);
+    }
+    return out;
+  }
+
+  return function resample(input: Int16Array): Int16Array {
+    if (fromRate === toRate || input.length === 0) return input;
+    const src = filter(input);
+    const n = src.length;
+    const out = new Int16Array(Math.ceil((n - pos) / step) + 1);
+    let count = 0;
+    for (; pos < n; pos += step) {
+      const i = Math.floor(pos);
+      const frac = pos - i;
+      const a = i === 0 ? last : src[i - 1];
+      const b = src[i];
+      out[count++] = Math.round(a + (b - a) * frac);
+    }
+    pos -= n;
+    last = src[n - 1];
+    return out.subarray(0, count);
+  };
+}
+
+// One-shot conversion for whole buffers
+export function resamplePcm16(
+  input: Int16Array,
+  fromRate: SampleRate,
+  toRate: SampleRate
+): Int16Array {
+  return createResampler(fromRate, toRate)(input);
+}
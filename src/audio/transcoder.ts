@@ -0,0 +1,39 @@
+import type { AudioFormat } from "../config/callConfig";
+import { base64ToBytes, bytesToBase64 } from "../utils/base64";
+import { decodeMulaw, encodeMulaw } from "./mulaw";
+import { bytesToPcm16, pcm16ToBytes } from "./pcm";
+import { createResampler } from "./resample";
+
+const TWILIO_RATE = 8000;
+const PCM16_RATE = 24000;
+
+/**
+ * Converts between Twilio's base64 μ-law 8 kHz frames and the realtime
+ * session's audio format. g711_ulaw passes through untouched; pcm16 is
+ * decoded, resampled to 24 kHz and back. One instance per call, since the
+ * resamplers carry state between frames.
+ */
+export function createAudioTranscoder(format: AudioFormat) {
+  if (format === "g711_ulaw") {
+    return {
+      format,
+      toUpstream: (payload: string) => payload,
+      toTwilio: (delta: string) => delta,
+    };
+  }
+  const upsample = createResampler(TWILIO_RATE, PCM16_RATE);
+  const downsample = createResampler(PCM16_RATE, TWILIO_RATE);
+  return {
+    format,
+    toUpstream(payload: string): string {
+      const pcm = upsample(decodeMulaw(base64ToBytes(payload)));
+      return bytesToBase64(pcm16ToBytes(pcm));
+    },
+    toTwilio(delta: string): string {
+      const pcm = downsample(bytesToPcm16(base64ToBytes(delta)));
+      return bytesToBase64(encodeMulaw(pcm));
+    },
+  };
+}
+
+export type AudioTranscoder = ReturnType<typeof createAudioTranscoder>;
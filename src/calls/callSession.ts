@@ -0,0 +1,420 @@
+import type { TranscriptLine } from "../transcripts/store";
+import { rackyError, rackyLog } from "../utils/log";
+import {
+  ACTIVE_CALL_HEARTBEAT_MS,
+  ActiveCall,
+  removeActiveCall,
+  touchActiveCall,
+  upsertActiveCall,
+} from "./directory";
+
+// Events delivered from HTTP callbacks (or the DO itself) to the live bridge
+export type CallChannelEvent =
+  | { type: "amd"; answeredBy: string }
+  | { type: "monitor"; audio: boolean }
+  | { type: "whisper"; text: string }
+  | { type: "barge"; active: boolean }
+  | { type: "barge_audio"; payload: string }
+  | { type: "conference_participant"; label: string; joined: boolean }
+  | { type: "conference_speaker"; label: string; speaking: boolean };
+
+export type LiveCallSpeaker = "caller" | "assistant" | "none";
+
+export type LiveCallState = ActiveCall & {
+  streamSid: string | null;
+  speaker: LiveCallSpeaker;
+  status: "active" | "ended";
+  endedAt: string | null;
+  lines: TranscriptLine[];
+};
+
+// Messages the bridge sends up its channel
+export type CallSessionUpdate =
+  | { type: "state"; state: Partial<Omit<LiveCallState, "lines">> }
+  | { type: "transcript"; line: TranscriptLine }
+  | { type: "event"; name: string; detail?: Record<string, unknown> }
+  | { type: "audio"; track: "caller" | "assistant"; payload: string };
+
+// Commands accepted on /calls/<CallSid>/control
+export type SupervisorCommand =
+  | { type: "whisper"; text: string }
+  | { type: "barge"; active: boolean }
+  | { type: "audio"; payload: string };
+
+// Messages a supervisor receives on /calls/<CallSid>/monitor and /control
+export type SupervisorMessage =
+  | { type: "snapshot"; call: LiveCallState | null }
+  | { type: "state"; call: Omit<LiveCallState, "lines"> }
+  | { type: "transcript"; line: TranscriptLine }
+  | {
+      type: "event";
+      name: string;
+      detail?: Record<string, unknown>;
+      at: string;
+    }
+  | { type: "audio"; track: "caller" | "assistant"; payload: string };
+
+const BRIDGE_TAG = "bridge";
+const SUPERVISOR_TAG = "supervisor";
+const AUDIO_TAG = "audio";
+const CONTROL_TAG = "control";
+const PENDING_KEY = "pending-events";
+const STATE_KEY = "live-state";
+const MAX_PENDING_EVENTS = 50;
+const LIVE_TRANSCRIPT_LINES = 20;
+const MAX_WHISPER_CHARS = 1000;
+
+type CallSessionEnv = { CALL_DIRECTORY?: DurableObjectNamespace };
+
+function activeCallOf(state: LiveCallState): ActiveCall {
+  return {
+    callSid: state.callSid,
+    tenant: state.tenant,
+    caller: state.caller,
+    direction: state.direction,
+    startedAt: state.startedAt,
+    voicemailMode: state.voicemailMode,
+  };
+}
+
+// Durable Object implementation, one instance per CallSid
+export class CallSession {
+  private readonly state: DurableObjectState;
+  private readonly env: CallSessionEnv;
+  private live: LiveCallState | null = null;
+  private liveLoaded = false;
+
+  constructor(state: DurableObjectState, env: CallSessionEnv) {
+    this.state = state;
+    this.env = env;
+  }
+
+  async fetch(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+    if (url.pathname === "/bridge") {
+      if (request.headers.get("Upgrade") !== "websocket") {
+        return new Response("Expected Upgrade: websocket", { status: 426 });
+      }
+      const pair = new WebSocketPair();
+      const [client, server] = Object.values(pair);
+      this.state.acceptWebSocket(server, [BRIDGE_TAG]);
+      // Deliver anything that arrived before the bridge connected
+      const pending =
+        (await this.state.storage.get<CallChannelEvent[]>(PENDING_KEY)) ?? [];
+      for (const evt of pending) server.send(JSON.stringify(evt));
+      if (pending.length) await this.state.storage.delete(PENDING_KEY);
+      if (this.audioListenerCount() > 0) {
+        server.send(JSON.stringify({ type: "monitor", audio: true }));
+      }
+      return new Response(null, { status: 101, webSocket: client });
+    }
+    if (url.pathname === "/supervisor") {
+      if (request.headers.get("Upgrade") !== "websocket") {
+        return new Response("Expected Upgrade: websocket", { status: 426 });
+      }
+      const wantsAudio = url.searchParams.get("audio") === "1";
+      const tags = [SUPERVISOR_TAG];
+      if (wantsAudio) tags.push(AUDIO_TAG);
+      if (url.searchParams.get("control") === "1") tags.push(CONTROL_TAG);
+      const pair = new WebSocketPair();
+      const [client, server] = Object.values(pair);
+      this.state.acceptWebSocket(server, tags);
+      const snapshot: SupervisorMessage = {
+        type: "snapshot",
+        call: await this.loadLive(),
+      };
+      server.send(JSON.stringify(snapshot));
+      if (wantsAudio && this.audioListenerCount() === 1) {
+        this.broadcastToBridge({ type: "monitor", audio: true });
+      }
+      return new Response(null, { status: 101, webSocket: client });
+    }
+    if (url.pathname === "/state" && request.method === "GET") {
+      return new Response(JSON.stringify(await this.loadLive()), {
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+    if (url.pathname === "/event" && request.method === "POST") {
+      let evt: CallChannelEvent;
+      try {
+        evt = (await request.json()) as CallChannelEvent;
+      } catch {
+        return new Response("Bad Request", { status: 400 });
+      }
+      const delivered = this.broadcastToBridge(evt);
+      if (!delivered) {
+        const pending =
+          (await this.state.storage.get<CallChannelEvent[]>(PENDING_KEY)) ?? [];
+        pending.push(evt);
+        await this.state.storage.put(
+          PENDING_KEY,
+          pending.slice(-MAX_PENDING_EVENTS)
+        );
+      }
+      return new Response(JSON.stringify({ delivered }), {
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+    return new Response("Not Found", { status: 404 });
+  }
+
+  private async loadLive(): Promise<LiveCallState | null> {
+    if (!this.liveLoaded) {
+      this.live =
+        (await this.state.storage.get<LiveCallState>(STATE_KEY)) ?? null;
+      this.liveLoaded = true;
+    }
+    return this.live;
+  }
+
+  private async saveLive(live: LiveCallState) {
+    this.live = live;
+    await this.state.storage.put(STATE_KEY, live);
+  }
+
+  private broadcastToBridge(evt: CallChannelEvent): boolean {
+    const sockets = this.state.getWebSockets(BRIDGE_TAG);
+    let delivered = false;
+    for (const ws of sockets) {
+      try {
+        ws.send(JSON.stringify(evt));
+        delivered = true;
+      } catch {}
+    }
+    return delivered;
+  }
+
+  private broadcastToSupervisors(
+    msg: SupervisorMessage,
+    tag: string = SUPERVISOR_TAG
+  ) {
+    const data = JSON.stringify(msg);
+    for (const ws of this.state.getWebSockets(tag)) {
+      try {
+        ws.send(data);
+      } catch {}
+    }
+  }
+
+  private audioListenerCount(exclude?: WebSocket): number {
+    return this.state.getWebSockets(AUDIO_TAG).filter((ws) => ws !== exclude)
+      .length;
+  }
+
+  private async applyBridgeUpdate(update: CallSessionUpdate) {
+    if (update.type === "audio") {
+      this.broadcastToSupervisors(update, AUDIO_TAG);
+      return;
+    }
+    if (update.type === "event") {
+      this.broadcastToSupervisors({ ...update, at: new Date().toISOString() });
+      return;
+    }
+    const prev = await this.loadLive();
+    if (update.type === "transcript") {
+      if (!prev) return;
+      const lines = prev.lines.filter(
+        (l) => !(update.line.itemId && l.itemId === update.line.itemId)
+      );
+      lines.push(update.line);
+      await this.saveLive({
+        ...prev,
+        lines: lines.slice(-LIVE_TRANSCRIPT_LINES),
+      });
+      this.broadcastToSupervisors(update);
+      return;
+    }
+    const next: LiveCallState = {
+      callSid: "",
+      tenant: "",
+      caller: null,
+      direction: "unknown",
+      startedAt: new Date().toISOString(),
+      voicemailMode: false,
+      streamSid: null,
+      speaker: "none",
+      status: "active",
+      endedAt: null,
+      lines: [],
+      ...prev,
+      ...update.state,
+    };
+    await this.saveLive(next);
+    const { lines: _lines, ...call } = next;
+    this.broadcastToSupervisors({ type: "state", call });
+    // The directory only tracks fields the call list shows
+    const listed = JSON.stringify(activeCallOf(next));
+    if (
+      next.callSid &&
+      (!prev || JSON.stringify(activeCallOf(prev)) !== listed)
+    ) {
+      await upsertActiveCall(this.env, activeCallOf(next));
+    }
+    if (next.callSid && (await this.state.storage.getAlarm()) == null) {
+      await this.state.storage.setAlarm(Date.now() + ACTIVE_CALL_HEARTBEAT_MS);
+    }
+  }
+
+  // Keeps the call's directory entry fresh while its bridge is connected
+  async alarm() {
+    const live = await this.loadLive();
+    if (!live?.callSid || live.status === "ended") return;
+    if (!this.state.getWebSockets(BRIDGE_TAG).length) return;
+    await touchActiveCall(this.env, live.callSid);
+    await this.state.storage.setAlarm(Date.now() + ACTIVE_CALL_HEARTBEAT_MS);
+  }
+
+  private async endCall() {
+    const live = await this.loadLive();
+    if (!live || live.status === "ended") return;
+    const ended: LiveCallState = {
+      ...live,
+      status: "ended",
+      speaker: "none",
+      endedAt: new Date().toISOString(),
+    };
+    await this.saveLive(ended);
+    const { lines: _lines, ...call } = ended;
+    this.broadcastToSupervisors({ type: "state", call });
+    for (const ws of this.state.getWebSockets(SUPERVISOR_TAG)) {
+      try {
+        ws.close(1000, "call_ended");
+      } catch {}
+    }
+    if (live.callSid) await removeActiveCall(this.env, live.callSid);
+  }
+
+  // Turns a control socket command into an event for the bridge
+  private applySupervisorCommand(ws: WebSocket, cmd: SupervisorCommand) {
+    if (cmd.type === "whisper") {
+      const text = String(cmd.text || "")
+        .trim()
+        .slice(0, MAX_WHISPER_CHARS);
+      if (text) this.broadcastToBridge({ type: "whisper", text });
+      return;
+    }
+    if (cmd.type === "barge") {
+      const active = cmd.active === true;
+      // Remembered so a dropped supervisor never leaves the assistant muted
+      ws.serializeAttachment({ barging: active });
+      this.broadcastToBridge({ type: "barge", active });
+      return;
+    }
+    if (cmd.type === "audio" && typeof cmd.payload === "string") {
+      const attachment = ws.deserializeAttachment() as {
+        barging?: boolean;
+      } | null;
+      if (attachment?.barging) {
+        this.broadcastToBridge({ type: "barge_audio", payload: cmd.payload });
+      }
+    }
+  }
+
+  async webSocketMessage(ws: WebSocket, message: string | ArrayBuffer) {
+    if (typeof message !== "string") return;
+    const tags = this.state.getTags(ws);
+    try {
+      if (tags.includes(BRIDGE_TAG)) {
+        await this.applyBridgeUpdate(JSON.parse(message) as CallSessionUpdate);
+      } else if (tags.includes(CONTROL_TAG)) {
+        this.applySupervisorCommand(
+          ws,
+          JSON.parse(message) as SupervisorCommand
+        );
+      }
+    } catch (e) {
+      rackyError("[call-session] bad socket message", e);
+    }
+  }
+
+  async webSocketClose(ws: WebSocket, code: number, reason: string) {
+    const tags = this.state.getTags(ws);
+    try {
+      ws.close(code, reason);
+    } catch {}
+    if (tags.includes(BRIDGE_TAG)) {
+      await this.endCall();
+      return;
+    }
+    const attachment = ws.deserializeAttachment() as {
+      barging?: boolean;
+    } | null;
+    if (attachment?.barging) {
+      this.broadcastToBridge({ type: "barge", active: false });
+    }
+    if (tags.includes(AUDIO_TAG) && this.audioListenerCount(ws) === 0) {
+      this.broadcastToBridge({ type: "monitor", audio: false });
+    }
+  }
+}
+
+function callSessionStub(
+  ns: DurableObjectNamespace,
+  callSid: string
+): DurableObjectStub {
+  return ns.get(ns.idFromName(callSid));
+}
+
+/**
+ * Opens the bridge side of a call's event channel. Returns null when the
+ * CALL_SESSIONS binding is missing (e.g. local dev without Durable Objects).
+ */
+export async function connectCallChannel(
+  env: { CALL_SESSIONS?: DurableObjectNamespace },
+  callSid: string,
+  onEvent: (evt: CallChannelEvent) => void
+): Promise<WebSocket | null> {
+  const ns = env.CALL_SESSIONS;
+  if (!ns) return null;
+  const res = await callSessionStub(ns, callSid).fetch("https://do/bridge", {
+    headers: { Upgrade: "websocket" },
+  });
+  const ws = res.webSocket;
+  if (!ws) {
+    rackyError("[call-session] channel upgrade failed", res.status);
+    return null;
+  }
+  ws.accept();
+  ws.addEventListener("message", (event: MessageEvent) => {
+    try {
+      const raw = typeof event.data === "string" ? event.data : "";
+      if (raw) onEvent(JSON.parse(raw) as CallChannelEvent);
+    } catch (e) {
+      rackyError("[call-session] bad channel message", e);
+    }
+  });
+  rackyLog(`[call-session] channel open for ${callSid}`);
+  return ws;
+}
+
+export async function sendCallEvent(
+  env: { CALL_SESSIONS?: DurableObjectNamespace },
+  callSid: string,
+  evt: CallChannelEvent
+): Promise<boolean> {
+  const ns = env.CALL_SESSIONS;
+  if (!ns) return false;
+  const res = await callSessionStub(ns, callSid).fetch("https://do/event", {
+    method: "POST",
+    body: JSON.stringify(evt),
+  });
+  if (!res.ok) return false;
+  return ((await res.json()) as { delivered: boolean }).delivered;
+}
+
+// Hands a supervisor's WebSocket upgrade to the call's session
+export async function openSupervisorSocket(
+  env: { CALL_SESSIONS?: DurableObjectNamespace },
+  callSid: string,
+  options: { audio: boolean; control?: boolean }
+): Promise<Response> {
+  const ns = env.CALL_SESSIONS;
+  if (!ns) return new Response("Live calls unavailable", { status: 503 });
+  const params = new URLSearchParams();
+  if (options.audio) params.set("audio", "1");
+  if (options.control) params.set("control", "1");
+  const query = params.toString() ? `?${params.toString()}` : "";
+  return callSessionStub(ns, callSid).fetch(`https://do/supervisor${query}`, {
+    headers: { Upgrade: "websocket" },
+  });
+}
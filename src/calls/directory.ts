@@ -0,0 +1,187 @@
+import { rackyError } from "../utils/log";
+
+// What the supervisor call list shows for each live call
+export type ActiveCall = {
+  callSid: string;
+  tenant: string;
+  caller: string | null;
+  direction: "inbound" | "outbound" | "unknown";
+  startedAt: string;
+  voicemailMode: boolean;
+};
+
+// When the entry was last upserted or touched by its call session
+type ListedCall = ActiveCall & { seenAt?: number };
+
+// How often a call session refreshes its entry while its bridge is connected
+export const ACTIVE_CALL_HEARTBEAT_MS = 60_000;
+
+const DIRECTORY_NAME = "active-calls";
+const CALL_PREFIX = "call:";
+const SUPERVISOR_TAG = "supervisor";
+// Drop entries whose session stopped refreshing them without reporting the
+// end (e.g. an evicted isolate), however long the call itself may run
+const STALE_AFTER_MS = 5 * ACTIVE_CALL_HEARTBEAT_MS;
+
+// Durable Object implementation, a single instance for the whole deployment
+export class CallDirectory {
+  private readonly state: DurableObjectState;
+
+  constructor(state: DurableObjectState, _env: unknown) {
+    this.state = state;
+  }
+
+  async fetch(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+    if (url.pathname === "/live") {
+      if (request.headers.get("Upgrade") !== "websocket") {
+        return new Response("Expected Upgrade: websocket", { status: 426 });
+      }
+      const pair = new WebSocketPair();
+      const [client, server] = Object.values(pair);
+      this.state.acceptWebSocket(server, [SUPERVISOR_TAG]);
+      server.send(JSON.stringify({ type: "calls", calls: await this.list() }));
+      return new Response(null, { status: 101, webSocket: client });
+    }
+    if (url.pathname === "/list" && request.method === "GET") {
+      return new Response(JSON.stringify({ calls: await this.list() }), {
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+    if (url.pathname === "/upsert" && request.method === "POST") {
+      const call = (await request.json()) as ActiveCall;
+      if (!call?.callSid) return new Response("Bad Request", { status: 400 });
+      const listed: ListedCall = { ...call, seenAt: Date.now() };
+      await this.state.storage.put(`${CALL_PREFIX}${call.callSid}`, listed);
+      await this.broadcast();
+      return new Response("ok");
+    }
+    if (url.pathname === "/touch" && request.method === "POST") {
+      const { callSid } = (await request.json()) as { callSid?: string };
+      if (!callSid) return new Response("Bad Request", { status: 400 });
+      const key = `${CALL_PREFIX}${callSid}`;
+      const call = await this.state.storage.get<ListedCall>(key);
+      if (call) {
+        await this.state.storage.put(key, { ...call, seenAt: Date.now() });
+      }
+      return new Response("ok");
+    }
+    if (url.pathname === "/remove" && request.method === "POST") {
+      const { callSid } = (await request.json()) as { callSid?: string };
+      if (!callSid) return new Response("Bad Request", { status: 400 });
+      await this.state.storage.delete(`${CALL_PREFIX}${callSid}`);
+      await this.broadcast();
+      return new Response("ok");
+    }
+    return new Response("Not Found", { status: 404 });
+  }
+
+  private async list(): Promise<ActiveCall[]> {
+    const entries = await this.state.storage.list<ListedCall>({
+      prefix: CALL_PREFIX,
+    });
+    const now = Date.now();
+    const calls: ActiveCall[] = [];
+    const stale: string[] = [];
+    for (const [key, { seenAt, ...call }] of entries) {
+      const lastSeen = seenAt ?? Date.parse(call.startedAt);
+      if (now - lastSeen > STALE_AFTER_MS) stale.push(key);
+      else calls.push(call);
+    }
+    if (stale.length) await this.state.storage.delete(stale);
+    return calls.sort((a, b) => a.startedAt.localeCompare(b.startedAt));
+  }
+
+  private async broadcast() {
+    const sockets = this.state.getWebSockets(SUPERVISOR_TAG);
+    if (!sockets.length) return;
+    const data = JSON.stringify({ type: "calls", calls: await this.list() });
+    for (const ws of sockets) {
+      try {
+        ws.send(data);
+      } catch {}
+    }
+  }
+
+  async webSocketMessage(_ws: WebSocket, _message: string | ArrayBuffer) {}
+
+  async webSocketClose(ws: WebSocket, code: number, reason: string) {
+    try {
+      ws.close(code, reason);
+    } catch {}
+  }
+}
+
+type DirectoryEnv = { CALL_DIRECTORY?: DurableObjectNamespace };
+
+function directoryStub(ns: DurableObjectNamespace): DurableObjectStub {
+  return ns.get(ns.idFromName(DIRECTORY_NAME));
+}
+
+export async function upsertActiveCall(
+  env: DirectoryEnv,
+  call: ActiveCall
+): Promise<void> {
+  const ns = env.CALL_DIRECTORY;
+  if (!ns) return;
+  try {
+    await directoryStub(ns).fetch("https://do/upsert", {
+      method: "POST",
+      body: JSON.stringify(call),
+    });
+  } catch (e) {
+    rackyError("[call-directory] upsert failed", call.callSid, e);
+  }
+}
+
+// Heartbeat: the call is still live, nothing shown in the list changed
+export async function touchActiveCall(
+  env: DirectoryEnv,
+  callSid: string
+): Promise<void> {
+  const ns = env.CALL_DIRECTORY;
+  if (!ns) return;
+  try {
+    await directoryStub(ns).fetch("https://do/touch", {
+      method: "POST",
+      body: JSON.stringify({ callSid }),
+    });
+  } catch (e) {
+    rackyError("[call-directory] touch failed", callSid, e);
+  }
+}
+
+export async function removeActiveCall(
+  env: DirectoryEnv,
+  callSid: string
+): Promise<void> {
+  const ns = env.CALL_DIRECTORY;
+  if (!ns) return;
+  try {
+    await directoryStub(ns).fetch("https://do/remove", {
+      method: "POST",
+      body: JSON.stringify({ callSid }),
+    });
+  } catch (e) {
+    rackyError("[call-directory] remove failed", callSid, e);
+  }
+}
+
+export async function listActiveCalls(
+  env: DirectoryEnv
+): Promise<ActiveCall[] | null> {
+  const ns = env.CALL_DIRECTORY;
+  if (!ns) return null;
+  const res = await directoryStub(ns).fetch("https://do/list");
+  if (!res.ok) return null;
+  return ((await res.json()) as { calls: ActiveCall[] }).calls;
+}
+
+// Hands a supervisor's WebSocket upgrade to the directory's live call list
+export async function openCallListSocket(env: DirectoryEnv): Promise<Response> {
+  const ns = env.CALL_DIRECTORY;
+  if (!ns) return new Response("Live calls unavailable", { status: 503 });
+  return directoryStub(ns).fetch("https://do/live", {
+    headers: { Upgrade: "websocket" },
+  });
+}
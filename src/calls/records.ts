@@ -0,0 +1,265 @@
+import type { Language } from "../i18n/catalog";
+import { rackyError } from "../utils/log";
+
+export type CallDirection = "inbound" | "outbound" | "unknown";
+
+// Why the media bridge ended, as seen from the Worker
+export type CallCloseReason =
+  | "caller_hangup"
+  | "time_limit"
+  | "idle"
+  | "voicemail_complete"
+  | "transfer"
+  | "upstream_failure"
+  | "upstream_closed";
+
+export type CallStatusTransition = {
+  status: string;
+  at: string; // ISO
+};
+
+export type CallRecord = {
+  callSid: string;
+  from: string | null;
+  to: string | null;
+  direction: CallDirection;
+  tenant: string | null;
+  status: string;
+  statuses: CallStatusTransition[];
+  durationSec: number | null;
+  answeredBy: string | null;
+  closeReason: CallCloseReason | null;
+  // SMS thread that asked for the call (@call) and gets the result
+  notifyConversationSid: string | null;
+  notifyLanguage: Language | null; // of the @call message, for the follow-up
+  notifiedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type CallRecordUpdate = { callSid: string } & Partial<
+  Pick<
+    CallRecord,
+    | "from"
+    | "to"
+    | "direction"
+    | "tenant"
+    | "status"
+    | "durationSec"
+    | "answeredBy"
+    | "closeReason"
+    | "notifyConversationSid"
+    | "notifyLanguage"
+    | "notifiedAt"
+  >
+>;
+
+export type CallRecordFilter = {
+  status?: string;
+  direction?: CallDirection;
+  number?: string; // matches from or to
+  tenant?: string;
+  since?: string; // ISO
+  limit?: number;
+};
+
+// Twilio statuses after which nothing else happens to the call
+export const FINAL_CALL_STATUSES = [
+  "completed",
+  "busy",
+  "no-answer",
+  "failed",
+  "canceled",
+];
+
+const LOG_NAME = "call-log";
+const RECORD_PREFIX = "rec:";
+const SID_PREFIX = "sid:";
+const LIST_MAX = 200;
+const LIST_SCAN_BATCH = 500;
+const RETENTION_MS = 90 * 24 * 60 * 60 * 1000;
+
+// Sorts by creation time; one key per call
+function recordKey(createdAtMs: number, callSid: string): string {
+  return `${RECORD_PREFIX}${String(createdAtMs).padStart(15, "0")}:${callSid}`;
+}
+
+function matches(record: CallRecord, filter: CallRecordFilter): boolean {
+  if (filter.status && record.status !== filter.status) return false;
+  if (filter.direction && record.direction !== filter.direction) return false;
+  if (filter.tenant && record.tenant !== filter.tenant) return false;
+  if (
+    filter.number &&
+    record.from !== filter.number &&
+    record.to !== filter.number
+  ) {
+    return false;
+  }
+  return true;
+}
+
+// Durable Object implementation, a single instance for the whole deployment
+export class CallLog {
+  private readonly state: DurableObjectState;
+
+  constructor(state: DurableObjectState, _env: unknown) {
+    this.state = state;
+  }
+
+  async fetch(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+    if (url.pathname === "/update" && request.method === "POST") {
+      let update: CallRecordUpdate;
+      try {
+        update = (await request.json()) as CallRecordUpdate;
+      } catch {
+        return new Response("Bad Request", { status: 400 });
+      }
+      if (!update?.callSid) return new Response("Bad Request", { status: 400 });
+      const record = await this.update(update);
+      return new Response(JSON.stringify(record), {
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+    if (url.pathname === "/list" && request.method === "POST") {
+      const filter = (await request.json()) as CallRecordFilter;
+      return new Response(JSON.stringify({ calls: await this.list(filter) }), {
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+    return new Response("Not Found", { status: 404 });
+  }
+
+  private async update(update: CallRecordUpdate): Promise<CallRecord> {
+    const now = new Date();
+    const nowIso = now.toISOString();
+    const sidKey = `${SID_PREFIX}${update.callSid}`;
+    let key = await this.state.storage.get<string>(sidKey);
+    const existing = key
+      ? await this.state.storage.get<CallRecord>(key)
+      : undefined;
+    const record: CallRecord = existing ?? {
+      callSid: update.callSid,
+      from: null,
+      to: null,
+      direction: "unknown",
+      tenant: null,
+      status: "unknown",
+      statuses: [],
+      durationSec: null,
+      answeredBy: null,
+      closeReason: null,
+      notifyConversationSid: null,
+      notifyLanguage: null,
+      notifiedAt: null,
+      createdAt: nowIso,
+      updatedAt: nowIso,
+    };
+    const { status, ...fields } = update;
+    for (const [k, v] of Object.entries(fields)) {
+      // The first notifiedAt wins, so only one follow-up is ever sent
+      if (k === "notifiedAt" && record.notifiedAt) continue;
+      // Later callbacks often omit fields the first one had
+      if (v !== undefined && v !== null && v !== "") {
+        (record as Record<string, unknown>)[k] = v;
+      }
+    }
+    if (status && status !== record.status) {
+      // A late "ringing" must not overwrite a final status
+      if (!FINAL_CALL_STATUSES.includes(record.status)) record.status = status;
+      record.statuses.push({ status, at: nowIso });
+    }
+    record.updatedAt = nowIso;
+    if (!key) {
+      key = recordKey(now.getTime(), record.callSid);
+      await this.state.storage.put(sidKey, key);
+      await this.prune(now.getTime());
+    }
+    await this.state.storage.put(key, record);
+    return record;
+  }
+
+  private async list(filter: CallRecordFilter): Promise<CallRecord[]> {
+    const limit = Math.min(Math.max(1, filter.limit ?? 50), LIST_MAX);
+    const sinceMs = filter.since ? Date.parse(filter.since) : NaN;
+    const out: CallRecord[] = [];
+    let end: string | undefined;
+    // Newest first, scanning in batches until enough records match
+    while (out.length < limit) {
+      const batch = await this.state.storage.list<CallRecord>({
+        prefix: RECORD_PREFIX,
+        reverse: true,
+        limit: LIST_SCAN_BATCH,
+        ...(end ? { end } : {}),
+      });
+      if (batch.size === 0) return out;
+      for (const [key, record] of batch) {
+        end = key;
+        if (!Number.isNaN(sinceMs) && Date.parse(record.createdAt) < sinceMs) {
+          return out;
+        }
+        if (matches(record, filter)) out.push(record);
+        if (out.length >= limit) break;
+      }
+      if (batch.size < LIST_SCAN_BATCH) break;
+    }
+    return out;
+  }
+
+  private async prune(nowMs: number) {
+    const old = await this.state.storage.list<CallRecord>({
+      prefix: RECORD_PREFIX,
+      end: recordKey(nowMs - RETENTION_MS, ""),
+      limit: 100,
+    });
+    if (old.size === 0) return;
+    const keys: string[] = [];
+    for (const [key, record] of old) {
+      keys.push(key, `${SID_PREFIX}${record.callSid}`);
+    }
+    await this.state.storage.delete(keys);
+  }
+}
+
+type CallLogEnv = { CALL_LOG?: DurableObjectNamespace };
+
+function callLogStub(ns: DurableObjectNamespace): DurableObjectStub {
+  return ns.get(ns.idFromName(LOG_NAME));
+}
+
+/**
+ * Merges what we learned about a call into its record and returns the
+ * result, or null when the CALL_LOG binding is missing or the write failed.
+ */
+export async function updateCallRecord(
+  env: CallLogEnv,
+  update: CallRecordUpdate
+): Promise<CallRecord | null> {
+  const ns = env.CALL_LOG;
+  if (!ns) return null;
+  try {
+    const res = await callLogStub(ns).fetch("https://do/update", {
+      method: "POST",
+      body: JSON.stringify(update),
+    });
+    if (!res.ok) return null;
+    return (await res.json()) as CallRecord;
+  } catch (e) {
+    rackyError("[call-log] update failed", update.callSid, e);
+    return null;
+  }
+}
+
+export async function listCallRecords(
+  env: CallLogEnv,
+  filter: CallRecordFilter
+): Promise<CallRecord[] | null> {
+  const ns = env.CALL_LOG;
+  if (!ns) return null;
+  const res = await callLogStub(ns).fetch("https://do/list", {
+    method: "POST",
+    body: JSON.stringify(filter),
+  });
+  if (!res.ok) return null;
+  return ((await res.json()) as { calls: CallRecord[] }).calls;
+}
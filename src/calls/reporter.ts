@@ -0,0 +1,56 @@
+import type { TranscriptLine } from "../transcripts/store";
+import type { CallSessionUpdate, LiveCallState } from "./callSession";
+
+// Updates kept while the channel is still connecting (audio is never queued)
+const MAX_QUEUED_UPDATES = 100;
+
+/**
+ * Bridge side of the live call view: pushes state, transcript lines and
+ * events up the CallSession channel, and caller/assistant audio only while
+ * a supervisor is listening.
+ */
+export function createLiveCallReporter() {
+  let channel: WebSocket | null = null;
+  let mirrorAudio = false;
+  const queued: CallSessionUpdate[] = [];
+
+  function send(update: CallSessionUpdate) {
+    if (!channel) {
+      queued.push(update);
+      if (queued.length > MAX_QUEUED_UPDATES) queued.shift();
+      return;
+    }
+    try {
+      channel.send(JSON.stringify(update));
+    } catch {}
+  }
+
+  return {
+    attach(ws: WebSocket) {
+      channel = ws;
+      for (const update of queued.splice(0, queued.length)) send(update);
+    },
+    detach() {
+      channel = null;
+      mirrorAudio = false;
+    },
+    setAudioMirror(enabled: boolean) {
+      mirrorAudio = enabled;
+    },
+    state(patch: Partial<Omit<LiveCallState, "lines">>) {
+      send({ type: "state", state: patch });
+    },
+    transcript(line: TranscriptLine) {
+      send({ type: "transcript", line });
+    },
+    event(name: string, detail?: Record<string, unknown>) {
+      send({ type: "event", name, detail });
+    },
+    audio(track: "caller" | "assistant", payload: string | undefined) {
+      if (!mirrorAudio || !channel || !payload) return;
+      send({ type: "audio", track, payload });
+    },
+  };
+}
+
+export type LiveCallReporter = ReturnType<typeof createLiveCallReporter>;
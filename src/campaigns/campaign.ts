@@ -0,0 +1,526 @@
+import { FINAL_CALL_STATUSES } from "../calls/records";
+import { ASYNC_AMD_ENABLED, CAMPAIGN_DIAL_STALE_MS } from "../config/config";
+import type { Env } from "../config/env";
+import { DEFAULT_TENANT, getTenant } from "../tenants/registry";
+import { placeOutboundCalls } from "../twilio/helpers";
+import { rackyError, rackyLog } from "../utils/log";
+import {
+  CampaignSettings,
+  inCallingWindow,
+  nextWindowStart,
+  retryDelayMs,
+} from "./settings";
+
+export type CampaignStatus = "running" | "paused" | "completed" | "canceled";
+
+export type CampaignTargetStatus =
+  | "pending"
+  | "dialing"
+  | "retry_wait"
+  | "answered"
+  | "voicemail"
+  | "exhausted" // no-answer/busy on every attempt
+  | "failed"
+  | "canceled";
+
+export type CampaignAttempt = {
+  callSid: string | null;
+  startedAt: string;
+  result: string | null; // Twilio's final status, "voicemail" or "create_failed"
+  durationSec: number | null;
+};
+
+export type CampaignTarget = {
+  index: number;
+  number: string; // E.164
+  context: string | null;
+  status: CampaignTargetStatus;
+  attempts: CampaignAttempt[];
+  nextAttemptAt: string | null; // ISO, while retry_wait
+  updatedAt: string;
+};
+
+export type CampaignMeta = {
+  id: string;
+  name: string;
+  tenant: string;
+  origin: string; // this Worker's origin, for the Twilio callback URLs
+  settings: CampaignSettings;
+  status: CampaignStatus;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type CampaignSummary = CampaignMeta & {
+  total: number;
+  counts: Partial<Record<CampaignTargetStatus, number>>;
+  nextRunAt: string | null;
+};
+
+export type CampaignCreate = {
+  meta: Omit<CampaignMeta, "status" | "createdAt" | "updatedAt">;
+  targets: { number: string; context: string | null }[];
+};
+
+// What the status callback reports about one of the campaign's calls
+export type CampaignCallUpdate = {
+  callSid: string;
+  target?: number | null; // index, from the status callback URL
+  status: string;
+  answeredBy?: string | null;
+  durationSec?: number | null;
+};
+
+const META_KEY = "meta";
+const TARGET_PREFIX = "target:";
+const SID_PREFIX = "sid:";
+const LAST_DIAL_KEY = "last-dial-at";
+const OPEN_STATUSES: CampaignTargetStatus[] = [
+  "pending",
+  "dialing",
+  "retry_wait",
+];
+const RETRYABLE_RESULTS = ["no-answer", "busy", "create_failed"];
+
+function targetKey(index: number): string {
+  return `${TARGET_PREFIX}${String(index).padStart(6, "0")}`;
+}
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+function dialIntervalMs(meta: CampaignMeta): number {
+  return Math.ceil(60_000 / meta.settings.callsPerMinute);
+}
+
+function isDue(target: CampaignTarget, now: number): boolean {
+  if (target.status === "pending") return true;
+  return (
+    target.status === "retry_wait" &&
+    !!target.nextAttemptAt &&
+    Date.parse(target.nextAttemptAt) <= now
+  );
+}
+
+// Durable Object implementation, one instance per campaign id
+export class Campaign {
+  private readonly state: DurableObjectState;
+  private readonly env: Env;
+
+  constructor(state: DurableObjectState, env: Env) {
+    this.state = state;
+    this.env = env;
+  }
+
+  async fetch(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+    if (url.pathname === "/create" && request.method === "POST") {
+      if (await this.state.storage.get(META_KEY)) {
+        return json({ error: "Campaign exists" }, 409);
+      }
+      const body = (await request.json()) as CampaignCreate;
+      return json(await this.create(body), 201);
+    }
+
+    const meta = await this.state.storage.get<CampaignMeta>(META_KEY);
+    if (!meta) return json({ error: "Not found" }, 404);
+
+    if (url.pathname === "/summary" && request.method === "GET") {
+      return json(await this.summary(meta));
+    }
+    if (url.pathname === "/targets" && request.method === "GET") {
+      const status = url.searchParams.get("status");
+      const targets = await this.loadTargets();
+      return json({
+        targets: status ? targets.filter((t) => t.status === status) : targets,
+      });
+    }
+    if (url.pathname === "/target" && request.method === "GET") {
+      const index = Number(url.searchParams.get("index"));
+      const target = Number.isInteger(index)
+        ? await this.state.storage.get<CampaignTarget>(targetKey(index))
+        : undefined;
+      return target ? json(target) : json({ error: "Not found" }, 404);
+    }
+    if (url.pathname === "/call-status" && request.method === "POST") {
+      const update = (await request.json()) as CampaignCallUpdate;
+      if (!update?.callSid) return json({ error: "Bad Request" }, 400);
+      await this.applyCallUpdate(meta, update);
+      return json({ ok: true });
+    }
+    if (
+      (url.pathname === "/pause" ||
+        url.pathname === "/resume" ||
+        url.pathname === "/cancel") &&
+      request.method === "POST"
+    ) {
+      await this.setStatus(meta, url.pathname.slice(1));
+      return json(await this.summary(meta));
+    }
+    return json({ error: "Not Found" }, 404);
+  }
+
+  // Places at most one call per tick; the tick interval is the pacing
+  async alarm() {
+    const meta = await this.state.storage.get<CampaignMeta>(META_KEY);
+    if (!meta || meta.status !== "running") return;
+    const now = Date.now();
+    const targets = await this.loadTargets();
+    await this.expireStaleDials(meta, targets, now);
+
+    if (!targets.some((t) => OPEN_STATUSES.includes(t.status))) {
+      await this.saveMeta(meta, { status: "completed" });
+      rackyLog("[campaign] completed", meta.id);
+      return;
+    }
+    if (!inCallingWindow(meta.settings.window, now)) {
+      await this.state.storage.setAlarm(
+        nextWindowStart(meta.settings.window, now)
+      );
+      return;
+    }
+
+    const intervalMs = dialIntervalMs(meta);
+    const lastDialAt =
+      (await this.state.storage.get<number>(LAST_DIAL_KEY)) ?? 0;
+    const dialing = targets.filter((t) => t.status === "dialing").length;
+    const due = targets.find((t) => isDue(t, now));
+    if (
+      due &&
+      dialing < meta.settings.maxConcurrent &&
+      now >= lastDialAt + intervalMs
+    ) {
+      await this.dial(meta, due);
+    }
+
+    const stillDue = targets.some((t) => isDue(t, now));
+    if (stillDue || targets.some((t) => t.status === "dialing")) {
+      // Status callbacks wake us sooner when a slot frees up
+      await this.state.storage.setAlarm(now + intervalMs);
+      return;
+    }
+    const retries = targets
+      .filter((t) => t.status === "retry_wait" && t.nextAttemptAt)
+      .map((t) => Date.parse(t.nextAttemptAt!));
+    const nextRetry = retries.length ? Math.min(...retries) : now;
+    await this.state.storage.setAlarm(Math.max(nextRetry, now + intervalMs));
+  }
+
+  private async create(body: CampaignCreate): Promise<CampaignSummary> {
+    const nowIso = new Date().toISOString();
+    const meta: CampaignMeta = {
+      ...body.meta,
+      status: "running",
+      createdAt: nowIso,
+      updatedAt: nowIso,
+    };
+    const entries: Record<string, CampaignTarget> = {};
+    body.targets.forEach((t, index) => {
+      entries[targetKey(index)] = {
+        index,
+        number: t.number,
+        context: t.context,
+        status: "pending",
+        attempts: [],
+        nextAttemptAt: null,
+        updatedAt: nowIso,
+      };
+    });
+    // put() takes at most 128 keys at a time
+    const keys = Object.keys(entries);
+    for (let i = 0; i < keys.length; i += 128) {
+      const batch: Record<string, CampaignTarget> = {};
+      for (const key of keys.slice(i, i + 128)) batch[key] = entries[key];
+      await this.state.storage.put(batch);
+    }
+    await this.state.storage.put(META_KEY, meta);
+    await this.state.storage.setAlarm(Date.now());
+    rackyLog("[campaign] created", meta.id, { targets: keys.length });
+    return this.summary(meta);
+  }
+
+  private async summary(meta: CampaignMeta): Promise<CampaignSummary> {
+    const targets = await this.loadTargets();
+    const counts: Partial<Record<CampaignTargetStatus, number>> = {};
+    for (const t of targets) counts[t.status] = (counts[t.status] ?? 0) + 1;
+    const alarm = await this.state.storage.getAlarm();
+    return {
+      ...meta,
+      total: targets.length,
+      counts,
+      nextRunAt: alarm != null ? new Date(alarm).toISOString() : null,
+    };
+  }
+
+  private async loadTargets(): Promise<CampaignTarget[]> {
+    const entries = await this.state.storage.list<CampaignTarget>({
+      prefix: TARGET_PREFIX,
+    });
+    return [...entries.values()];
+  }
+
+  private async saveTarget(target: CampaignTarget) {
+    target.updatedAt = new Date().toISOString();
+    await this.state.storage.put(targetKey(target.index), target);
+  }
+
+  private async saveMeta(meta: CampaignMeta, patch: Partial<CampaignMeta>) {
+    Object.assign(meta, patch, { updatedAt: new Date().toISOString() });
+    await this.state.storage.put(META_KEY, meta);
+  }
+
+  private async setStatus(meta: CampaignMeta, action: string) {
+    if (meta.status === "completed" || meta.status === "canceled") return;
+    if (action === "pause") {
+      await this.saveMeta(meta, { status: "paused" });
+      await this.state.storage.deleteAlarm();
+    } else if (action === "resume") {
+      await this.saveMeta(meta, { status: "running" });
+      await this.state.storage.setAlarm(Date.now());
+    } else if (action === "cancel") {
+      // Calls already ringing finish on their own
+      for (const t of await this.loadTargets()) {
+        if (t.status === "pending" || t.status === "retry_wait") {
+          t.status = "canceled";
+          t.nextAttemptAt = null;
+          await this.saveTarget(t);
+        }
+      }
+      await this.saveMeta(meta, { status: "canceled" });
+      await this.state.storage.deleteAlarm();
+    }
+    rackyLog("[campaign]", action, meta.id);
+  }
+
+  private async dial(meta: CampaignMeta, target: CampaignTarget) {
+    const tenant = getTenant(meta.tenant) ?? DEFAULT_TENANT;
+    const attempt: CampaignAttempt = {
+      callSid: null,
+      startedAt: new Date().toISOString(),
+      result: null,
+      durationSec: null,
+    };
+    target.attempts.push(attempt);
+    target.nextAttemptAt = null;
+    // Marked before the call exists: its status callback may beat the CallSid
+    target.status = "dialing";
+    await this.saveTarget(target);
+    await this.state.storage.put(LAST_DIAL_KEY, Date.now());
+
+    let callSid: string | undefined;
+    if (tenant.twilioNumber) {
+      // The voice webhook looks up the target's context for the AI session
+      const voiceQuery = new URLSearchParams({
+        campaign: meta.id,
+        target: String(target.index),
+      });
+      const statusQuery = new URLSearchParams({
+        campaign: meta.id,
+        target: String(target.index),
+        tenant: tenant.id,
+      });
+      try {
+        [callSid] = await placeOutboundCalls(
+          this.env,
+          [target.number],
+          `${meta.origin}/twilio/voice?${voiceQuery.toString()}`,
+          false,
+          {
+            from: tenant.twilioNumber,
+            statusCallbackUrl: `${
+              meta.origin
+            }/twilio/status?${statusQuery.toString()}`,
+            ...(ASYNC_AMD_ENABLED
+              ? { amdCallbackUrl: `${meta.origin}/twilio/amd` }
+              : {}),
+          }
+        );
+      } catch (e) {
+        rackyError("[campaign] dial error", meta.id, e);
+      }
+    } else {
+      rackyError("[campaign] tenant has no number", meta.tenant);
+    }
+
+    // Reloaded: the call may have ended while we waited on Twilio
+    const current =
+      (await this.state.storage.get<CampaignTarget>(targetKey(target.index))) ??
+      target;
+    if (callSid) {
+      const last = current.attempts[current.attempts.length - 1];
+      if (current.status === "dialing" && last && !last.callSid) {
+        last.callSid = callSid;
+        await this.state.storage.put(`${SID_PREFIX}${callSid}`, target.index);
+        await this.saveTarget(current);
+      }
+      rackyLog("[campaign] dialing", meta.id, target.number, callSid);
+      return;
+    }
+    this.settle(meta, current, "create_failed");
+    await this.saveTarget(current);
+  }
+
+  // Records an attempt's result and decides whether the number is done
+  private settle(
+    meta: CampaignMeta,
+    target: CampaignTarget,
+    result: string,
+    durationSec: number | null = null
+  ) {
+    const attempt = target.attempts[target.attempts.length - 1];
+    if (attempt) {
+      attempt.result = result;
+      attempt.durationSec = durationSec;
+    }
+    if (result === "completed") {
+      target.status = "answered";
+    } else if (result === "voicemail") {
+      target.status = "voicemail";
+    } else if (RETRYABLE_RESULTS.includes(result)) {
+      if (target.attempts.length < meta.settings.maxAttempts) {
+        target.status = "retry_wait";
+        target.nextAttemptAt = new Date(
+          Date.now() + retryDelayMs(meta.settings, target.attempts.length)
+        ).toISOString();
+      } else {
+        target.status = "exhausted";
+      }
+    } else {
+      target.status = "failed";
+    }
+    if (meta.status === "canceled" && target.status === "retry_wait") {
+      target.status = "canceled";
+      target.nextAttemptAt = null;
+    }
+  }
+
+  private async applyCallUpdate(
+    meta: CampaignMeta,
+    update: CampaignCallUpdate
+  ) {
+    if (!FINAL_CALL_STATUSES.includes(update.status)) return;
+    const sidKey = `${SID_PREFIX}${update.callSid}`;
+    const index =
+      (await this.state.storage.get<number>(sidKey)) ?? update.target;
+    if (index == null) return;
+    const target = await this.state.storage.get<CampaignTarget>(
+      targetKey(index)
+    );
+    if (!target || target.status !== "dialing") return;
+    const attempt = target.attempts[target.attempts.length - 1];
+    // Ended before dial() stored the CallSid: only the attempt awaiting one
+    if (attempt?.callSid !== update.callSid) {
+      if (!attempt || attempt.callSid) return;
+      attempt.callSid = update.callSid;
+    }
+
+    const answeredBy = update.answeredBy || "";
+    const result =
+      update.status === "completed" &&
+      (answeredBy.startsWith("machine") || answeredBy === "fax")
+        ? "voicemail"
+        : update.status;
+    this.settle(meta, target, result, update.durationSec ?? null);
+    await this.saveTarget(target);
+    await this.state.storage.delete(sidKey);
+    rackyLog("[campaign] call ended", meta.id, target.number, {
+      result,
+      status: target.status,
+    });
+
+    // A slot just freed up: run the next tick as soon as pacing allows
+    if (meta.status === "running") {
+      const lastDialAt =
+        (await this.state.storage.get<number>(LAST_DIAL_KEY)) ?? 0;
+      const next = Math.max(Date.now(), lastDialAt + dialIntervalMs(meta));
+      const alarm = await this.state.storage.getAlarm();
+      if (alarm == null || alarm > next) {
+        await this.state.storage.setAlarm(next);
+      }
+    }
+  }
+
+  private async expireStaleDials(
+    meta: CampaignMeta,
+    targets: CampaignTarget[],
+    now: number
+  ) {
+    for (const t of targets) {
+      if (t.status !== "dialing") continue;
+      const attempt = t.attempts[t.attempts.length - 1];
+      if (
+        attempt &&
+        now - Date.parse(attempt.startedAt) < CAMPAIGN_DIAL_STALE_MS
+      ) {
+        continue;
+      }
+      rackyError("[campaign] no final status, giving up", meta.id, t.number);
+      if (attempt?.callSid) {
+        await this.state.storage.delete(`${SID_PREFIX}${attempt.callSid}`);
+      }
+      this.settle(meta, t, "unknown");
+      await this.saveTarget(t);
+    }
+  }
+}
+
+type CampaignEnv = { CAMPAIGNS?: DurableObjectNamespace };
+
+function campaignStub(
+  ns: DurableObjectNamespace,
+  id: string
+): DurableObjectStub {
+  return ns.get(ns.idFromName(id));
+}
+
+// Relays a request to the campaign's Durable Object; null without the binding
+export async function campaignRequest(
+  env: CampaignEnv,
+  id: string,
+  path: string,
+  init?: RequestInit
+): Promise<Response | null> {
+  const ns = env.CAMPAIGNS;
+  if (!ns) return null;
+  return campaignStub(ns, id).fetch(`https://do${path}`, init);
+}
+
+// Called from the status callback for calls a campaign placed
+export async function reportCampaignCall(
+  env: CampaignEnv,
+  campaignId: string,
+  update: CampaignCallUpdate
+): Promise<void> {
+  try {
+    await campaignRequest(env, campaignId, "/call-status", {
+      method: "POST",
+      body: JSON.stringify(update),
+    });
+  } catch (e) {
+    rackyError("[campaign] status relay failed", campaignId, e);
+  }
+}
+
+// The voice webhook's lookup of the number a campaign call was placed to
+export async function getCampaignTarget(
+  env: CampaignEnv,
+  campaignId: string,
+  index: number
+): Promise<CampaignTarget | null> {
+  try {
+    const res = await campaignRequest(
+      env,
+      campaignId,
+      `/target?index=${index}`
+    );
+    if (!res?.ok) return null;
+    return (await res.json()) as CampaignTarget;
+  } catch (e) {
+    rackyError("[campaign] target lookup failed", campaignId, e);
+    return null;
+  }
+}
@@ -0,0 +1,184 @@
+import {
+  CAMPAIGN_DEFAULT_CALLS_PER_MINUTE,
+  CAMPAIGN_DEFAULT_MAX_ATTEMPTS,
+  CAMPAIGN_DEFAULT_MAX_CONCURRENT,
+  CAMPAIGN_DEFAULT_RETRY_BACKOFF_MIN,
+  CAMPAIGN_DEFAULT_WINDOW,
+} from "../config/config";
+
+// Local hours (and weekdays, 0 = Sunday) in which the campaign may dial
+export type CallingWindow = {
+  timezone: string;
+  startHour: number;
+  endHour: number;
+  days: number[];
+};
+
+export type CampaignSettings = {
+  callsPerMinute: number;
+  maxConcurrent: number;
+  maxAttempts: number;
+  retryBackoffMinutes: number;
+  window: CallingWindow;
+};
+
+export type CampaignSettingsInput = Partial<
+  Record<Exclude<keyof CampaignSettings, "window">, unknown>
+> & { window?: Partial<Record<keyof CallingWindow, unknown>> };
+
+export const DEFAULT_CAMPAIGN_SETTINGS: CampaignSettings = {
+  callsPerMinute: CAMPAIGN_DEFAULT_CALLS_PER_MINUTE,
+  maxConcurrent: CAMPAIGN_DEFAULT_MAX_CONCURRENT,
+  maxAttempts: CAMPAIGN_DEFAULT_MAX_ATTEMPTS,
+  retryBackoffMinutes: CAMPAIGN_DEFAULT_RETRY_BACKOFF_MIN,
+  window: CAMPAIGN_DEFAULT_WINDOW,
+};
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+// How finely nextWindowStart searches for the window opening
+const WINDOW_SEARCH_STEP_MS = 15 * 60 * 1000;
+const WINDOW_SEARCH_LIMIT_MS = 8 * 24 * 60 * 60 * 1000;
+
+function numberInRange(
+  value: unknown,
+  min: number,
+  max: number
+): number | null {
+  const n = Number(value);
+  return Number.isFinite(n) && n >= min && n <= max ? n : null;
+}
+
+function isTimeZone(value: unknown): value is string {
+  if (typeof value !== "string" || !value) return false;
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Validates campaign settings from the API. Missing fields take the defaults;
+ * invalid ones are named in `rejected` so the caller can refuse the upload.
+ */
+export function resolveCampaignSettings(input: CampaignSettingsInput = {}): {
+  settings: CampaignSettings;
+  rejected: string[];
+} {
+  const base = DEFAULT_CAMPAIGN_SETTINGS;
+  const rejected: string[] = [];
+  function pick(
+    name: string,
+    value: unknown,
+    min: number,
+    max: number,
+    fallback: number
+  ): number {
+    if (value === undefined) return fallback;
+    const n = numberInRange(value, min, max);
+    if (n === null) rejected.push(name);
+    return n ?? fallback;
+  }
+
+  const callsPerMinute = pick(
+    "callsPerMinute",
+    input.callsPerMinute,
+    0.1,
+    30,
+    base.callsPerMinute
+  );
+  const maxConcurrent = Math.round(
+    pick("maxConcurrent", input.maxConcurrent, 1, 20, base.maxConcurrent)
+  );
+  const maxAttempts = Math.round(
+    pick("maxAttempts", input.maxAttempts, 1, 10, base.maxAttempts)
+  );
+  const retryBackoffMinutes = pick(
+    "retryBackoffMinutes",
+    input.retryBackoffMinutes,
+    1,
+    24 * 60,
+    base.retryBackoffMinutes
+  );
+
+  const w = input.window ?? {};
+  let timezone = base.window.timezone;
+  if (w.timezone !== undefined) {
+    if (isTimeZone(w.timezone)) timezone = w.timezone;
+    else rejected.push("window.timezone");
+  }
+  const startHour = Math.floor(
+    pick("window.startHour", w.startHour, 0, 23, base.window.startHour)
+  );
+  const endHour = Math.floor(
+    pick("window.endHour", w.endHour, 1, 24, base.window.endHour)
+  );
+  if (endHour <= startHour) rejected.push("window.endHour");
+  let days = base.window.days;
+  if (w.days !== undefined) {
+    const list = Array.isArray(w.days) ? w.days.map(Number) : [];
+    const valid = list.filter((d) => Number.isInteger(d) && d >= 0 && d <= 6);
+    if (valid.length && valid.length === list.length) {
+      days = [...new Set(valid)].sort((a, b) => a - b);
+    } else rejected.push("window.days");
+  }
+
+  return {
+    settings: {
+      callsPerMinute,
+      maxConcurrent,
+      maxAttempts,
+      retryBackoffMinutes,
+      window: { timezone, startHour, endHour, days },
+    },
+    rejected,
+  };
+}
+
+function localDayAndHour(
+  ms: number,
+  timeZone: string
+): { day: number; hour: number } {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    weekday: "short",
+    hour: "numeric",
+    hourCycle: "h23",
+  }).formatToParts(new Date(ms));
+  const weekday = parts.find((p) => p.type === "weekday")?.value ?? "";
+  const hour = Number(parts.find((p) => p.type === "hour")?.value);
+  return { day: WEEKDAYS.indexOf(weekday), hour };
+}
+
+export function inCallingWindow(window: CallingWindow, ms: number): boolean {
+  const { day, hour } = localDayAndHour(ms, window.timezone);
+  return (
+    window.days.includes(day) &&
+    hour >= window.startHour &&
+    hour < window.endHour
+  );
+}
+
+// First moment at or after `ms` that falls inside the window (DST-safe scan)
+export function nextWindowStart(window: CallingWindow, ms: number): number {
+  const start = Math.ceil(ms / WINDOW_SEARCH_STEP_MS) * WINDOW_SEARCH_STEP_MS;
+  for (
+    let t = start;
+    t - ms < WINDOW_SEARCH_LIMIT_MS;
+    t += WINDOW_SEARCH_STEP_MS
+  ) {
+    if (inCallingWindow(window, t)) return t;
+  }
+  return ms + 60 * 60 * 1000;
+}
+
+// Wait before the next attempt after `attempts` unanswered ones
+export function retryDelayMs(
+  settings: CampaignSettings,
+  attempts: number
+): number {
+  return (
+    settings.retryBackoffMinutes * 60 * 1000 * 2 ** Math.max(0, attempts - 1)
+  );
+}
@@ -0,0 +1,422 @@
+import {
+  CONFERENCE_ASSISTANT_LABEL,
+  CONFERENCE_JOIN_CODE_DIGITS,
+  CONFERENCE_JOIN_TTL_MS,
+} from "../config/config";
+import { rackyError, rackyLog } from "../utils/log";
+
+export type ConferenceStatus = "starting" | "active" | "ended";
+
+export type ConferenceParticipant = {
+  label: string; // how the assistant refers to them, e.g. "Installer"
+  number: string; // E.164
+  callSid: string | null;
+  status: "dialing" | "joined" | "left" | "failed";
+  joinedAt: string | null;
+  leftAt: string | null;
+};
+
+export type ConferenceMeta = {
+  name: string; // Twilio FriendlyName, "conf-<uuid>"
+  tenant: string;
+  origin: string; // this Worker's origin, for the Twilio callback URLs
+  context: string | null; // job notes given to the assistant
+  status: ConferenceStatus;
+  conferenceSid: string | null;
+  // The leg running the media stream; conference events are relayed to it
+  assistantCallSid: string | null;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type ConferenceSummary = ConferenceMeta & {
+  participants: ConferenceParticipant[];
+};
+
+export type ConferenceCreate = {
+  meta: Omit<
+    ConferenceMeta,
+    "status" | "conferenceSid" | "assistantCallSid" | "createdAt" | "updatedAt"
+  >;
+  participants: { label: string; number: string }[];
+};
+
+// One conference status callback, as reported by Twilio
+export type ConferenceEventUpdate = {
+  event: string; // participant-join, participant-speech-start, ...
+  conferenceSid: string;
+  callSid: string;
+  label: string | null;
+};
+
+export type ConferenceEventResult = {
+  label: string | null;
+  assistant: boolean;
+  assistantCallSid: string | null;
+  conferenceSid: string | null;
+  // True once the last human has left and the conference should end
+  empty: boolean;
+};
+
+// A participant's own call ended; dials that never joined count as failed
+export type ConferenceCallStatus = { callSid: string; status: string };
+
+type PendingJoin = { conference: string; code: string; expiresAt: number };
+
+const SUMMARY_KEY = "summary";
+const DIAL_FAILED_STATUSES = ["busy", "no-answer", "failed", "canceled"];
+const JOINS_KEY = "joins";
+
+function newJoinCode(): string {
+  const digits = crypto.getRandomValues(
+    new Uint8Array(CONFERENCE_JOIN_CODE_DIGITS)
+  );
+  return Array.from(digits, (d) => String(d % 10)).join("");
+}
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+/**
+ * Durable Object implementation, one instance per conference name. One more
+ * instance per tenant number ("joins:<number>") holds the assistant's
+ * loopback legs that have been placed but not yet matched by the webhook,
+ * each under the one-time code that leg keys in.
+ */
+export class ConferenceRoom {
+  private readonly state: DurableObjectState;
+
+  constructor(state: DurableObjectState, _env: unknown) {
+    this.state = state;
+  }
+
+  async fetch(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+    if (url.pathname === "/joins/push" && request.method === "POST") {
+      const { conference } = (await request.json()) as { conference?: string };
+      if (!conference) return json({ error: "Bad Request" }, 400);
+      const joins = await this.liveJoins();
+      let code = newJoinCode();
+      while (joins.some((j) => j.code === code)) code = newJoinCode();
+      joins.push({
+        conference,
+        code,
+        expiresAt: Date.now() + CONFERENCE_JOIN_TTL_MS,
+      });
+      await this.state.storage.put(JOINS_KEY, joins);
+      return json({ code });
+    }
+    if (url.pathname === "/joins/take" && request.method === "POST") {
+      const { code } = (await request.json()) as { code?: string };
+      const joins = await this.liveJoins();
+      const match = code ? joins.find((j) => j.code === code) : undefined;
+      await this.state.storage.put(
+        JOINS_KEY,
+        joins.filter((j) => j !== match)
+      );
+      return json({ conference: match?.conference ?? null });
+    }
+    if (url.pathname === "/joins/drop" && request.method === "POST") {
+      const { conference } = (await request.json()) as { conference?: string };
+      const joins = await this.liveJoins();
+      await this.state.storage.put(
+        JOINS_KEY,
+        joins.filter((j) => j.conference !== conference)
+      );
+      return json({ ok: true });
+    }
+
+    if (url.pathname === "/create" && request.method === "POST") {
+      if (await this.state.storage.get(SUMMARY_KEY)) {
+        return json({ error: "Conference exists" }, 409);
+      }
+      const body = (await request.json()) as ConferenceCreate;
+      const now = new Date().toISOString();
+      const summary: ConferenceSummary = {
+        ...body.meta,
+        status: "starting",
+        conferenceSid: null,
+        assistantCallSid: null,
+        createdAt: now,
+        updatedAt: now,
+        participants: body.participants.map((p) => ({
+          ...p,
+          callSid: null,
+          status: "dialing",
+          joinedAt: null,
+          leftAt: null,
+        })),
+      };
+      await this.state.storage.put(SUMMARY_KEY, summary);
+      return json(summary, 201);
+    }
+
+    const summary =
+      await this.state.storage.get<ConferenceSummary>(SUMMARY_KEY);
+    if (!summary) return json({ error: "Not found" }, 404);
+
+    if (url.pathname === "/summary" && request.method === "GET") {
+      return json(summary);
+    }
+    if (url.pathname === "/dialed" && request.method === "POST") {
+      const { number, callSid } = (await request.json()) as {
+        number?: string;
+        callSid?: string | null;
+      };
+      const participant = summary.participants.find((p) => p.number === number);
+      if (!participant) return json({ error: "Unknown participant" }, 404);
+      participant.callSid = callSid ?? null;
+      if (!callSid) participant.status = "failed";
+      await this.save(summary);
+      return json(summary);
+    }
+    if (url.pathname === "/assistant" && request.method === "POST") {
+      const { callSid } = (await request.json()) as { callSid?: string };
+      if (!callSid) return json({ error: "Bad Request" }, 400);
+      summary.assistantCallSid = callSid;
+      await this.save(summary);
+      return json(summary);
+    }
+    if (url.pathname === "/event" && request.method === "POST") {
+      const update = (await request.json()) as ConferenceEventUpdate;
+      if (!update?.event) return json({ error: "Bad Request" }, 400);
+      return json(await this.applyEvent(summary, update));
+    }
+    if (url.pathname === "/call-status" && request.method === "POST") {
+      const update = (await request.json()) as ConferenceCallStatus;
+      if (!update?.callSid) return json({ error: "Bad Request" }, 400);
+      const participant = summary.participants.find(
+        (p) => p.callSid === update.callSid
+      );
+      if (
+        participant?.status === "dialing" &&
+        DIAL_FAILED_STATUSES.includes(update.status)
+      ) {
+        participant.status = "failed";
+        await this.save(summary);
+      }
+      const result: ConferenceEventResult = {
+        label: participant?.label ?? null,
+        assistant: false,
+        assistantCallSid: summary.assistantCallSid,
+        conferenceSid: summary.conferenceSid,
+        empty: !!participant && isEmpty(summary),
+      };
+      return json(result);
+    }
+    return json({ error: "Not Found" }, 404);
+  }
+
+  private async liveJoins(): Promise<PendingJoin[]> {
+    const now = Date.now();
+    const joins =
+      (await this.state.storage.get<PendingJoin[]>(JOINS_KEY)) ?? [];
+    return joins.filter((j) => j.expiresAt > now);
+  }
+
+  private async applyEvent(
+    summary: ConferenceSummary,
+    update: ConferenceEventUpdate
+  ): Promise<ConferenceEventResult> {
+    const now = new Date().toISOString();
+    if (update.conferenceSid) summary.conferenceSid = update.conferenceSid;
+    const participant = summary.participants.find(
+      (p) =>
+        (update.callSid && p.callSid === update.callSid) ||
+        (update.label && p.label === update.label)
+    );
+    const label = participant?.label ?? update.label;
+    const assistant = !participant && label === CONFERENCE_ASSISTANT_LABEL;
+
+    if (update.event === "conference-start" && summary.status === "starting") {
+      summary.status = "active";
+    }
+    if (update.event === "conference-end") summary.status = "ended";
+    if (participant && update.event === "participant-join") {
+      participant.status = "joined";
+      participant.callSid ??= update.callSid || null;
+      participant.joinedAt = now;
+    }
+    let empty = false;
+    if (participant && update.event === "participant-leave") {
+      participant.status = "left";
+      participant.leftAt = now;
+      empty = isEmpty(summary);
+    }
+    await this.save(summary);
+    return {
+      label,
+      assistant,
+      assistantCallSid: summary.assistantCallSid,
+      conferenceSid: summary.conferenceSid,
+      empty,
+    };
+  }
+
+  private async save(summary: ConferenceSummary): Promise<void> {
+    summary.updatedAt = new Date().toISOString();
+    await this.state.storage.put(SUMMARY_KEY, summary);
+  }
+}
+
+// Nobody is on the call and nobody is still being dialed in
+function isEmpty(summary: ConferenceSummary): boolean {
+  return (
+    summary.status !== "ended" &&
+    !summary.participants.some(
+      (p) => p.status === "joined" || p.status === "dialing"
+    )
+  );
+}
+
+type ConferenceEnv = { CONFERENCES?: DurableObjectNamespace };
+
+function conferenceStub(
+  ns: DurableObjectNamespace,
+  name: string
+): DurableObjectStub {
+  return ns.get(ns.idFromName(name));
+}
+
+export function isConferenceName(value: string): boolean {
+  return /^conf-[A-Za-z0-9-]{8,64}$/.test(value);
+}
+
+// Relays a request to the conference's Durable Object; null without the binding
+export async function conferenceRequest(
+  env: ConferenceEnv,
+  name: string,
+  path: string,
+  init?: RequestInit
+): Promise<Response | null> {
+  const ns = env.CONFERENCES;
+  if (!ns) return null;
+  return conferenceStub(ns, name).fetch(`https://do${path}`, init);
+}
+
+export async function getConference(
+  env: ConferenceEnv,
+  name: string
+): Promise<ConferenceSummary | null> {
+  try {
+    const res = await conferenceRequest(env, name, "/summary");
+    if (!res?.ok) return null;
+    return (await res.json()) as ConferenceSummary;
+  } catch (e) {
+    rackyError("[conference] summary failed", name, e);
+    return null;
+  }
+}
+
+/**
+ * Called before placing the assistant's loopback call from our number to
+ * itself. Returns the code that leg must key in to be matched; null on error.
+ */
+export async function queueAssistantJoin(
+  env: ConferenceEnv,
+  number: string,
+  conference: string
+): Promise<string | null> {
+  try {
+    const res = await conferenceRequest(env, `joins:${number}`, "/joins/push", {
+      method: "POST",
+      body: JSON.stringify({ conference }),
+    });
+    if (!res?.ok) return null;
+    const { code } = (await res.json()) as { code: string };
+    return code;
+  } catch (e) {
+    rackyError("[conference] queue join failed", conference, e);
+    return null;
+  }
+}
+
+// The loopback call could not be placed: forget its pending join
+export async function dropAssistantJoin(
+  env: ConferenceEnv,
+  number: string,
+  conference: string
+): Promise<void> {
+  try {
+    await conferenceRequest(env, `joins:${number}`, "/joins/drop", {
+      method: "POST",
+      body: JSON.stringify({ conference }),
+    });
+  } catch (e) {
+    rackyError("[conference] drop join failed", conference, e);
+  }
+}
+
+/**
+ * The conference whose assistant leg keyed in `code` at the voice webhook;
+ * null when no live join has that code. A code matches once.
+ */
+export async function takeAssistantJoin(
+  env: ConferenceEnv,
+  number: string,
+  code: string
+): Promise<string | null> {
+  try {
+    const res = await conferenceRequest(env, `joins:${number}`, "/joins/take", {
+      method: "POST",
+      body: JSON.stringify({ code }),
+    });
+    if (!res?.ok) return null;
+    const { conference } = (await res.json()) as { conference: string | null };
+    if (conference) rackyLog("[conference] assistant leg matched", conference);
+    return conference;
+  } catch (e) {
+    rackyError("[conference] take join failed", number, e);
+    return null;
+  }
+}
+
+export async function reportConferenceEvent(
+  env: ConferenceEnv,
+  name: string,
+  update: ConferenceEventUpdate
+): Promise<ConferenceEventResult | null> {
+  try {
+    const res = await conferenceRequest(env, name, "/event", {
+      method: "POST",
+      body: JSON.stringify(update),
+    });
+    if (!res?.ok) return null;
+    return (await res.json()) as ConferenceEventResult;
+  } catch (e) {
+    rackyError("[conference] event relay failed", name, e);
+    return null;
+  }
+}
+
+// From the status callback of a participant's own call leg
+export async function reportConferenceCallStatus(
+  env: ConferenceEnv,
+  name: string,
+  update: ConferenceCallStatus
+): Promise<ConferenceEventResult | null> {
+  try {
+    const res = await conferenceRequest(env, name, "/call-status", {
+      method: "POST",
+      body: JSON.stringify(update),
+    });
+    if (!res?.ok) return null;
+    return (await res.json()) as ConferenceEventResult;
+  } catch (e) {
+    rackyError("[conference] call status relay failed", name, e);
+    return null;
+  }
+}
+
+// The voice counterpart of the SMS group "@ai" rule
+const ADDRESSED_PATTERN =
+  /\b(hey|hi|ok|okay|oye|hola)[,\s]+(assistant|asistente)\b/i;
+const SUMMARY_PATTERN = /\b(summar(y|ize|ise)|recap|resumen|resumir)\b/i;
+
+export function isAddressedToAssistant(text: string): boolean {
+  return ADDRESSED_PATTERN.test(text) || SUMMARY_PATTERN.test(text);
+}
@@ -0,0 +1,181 @@
+import {
+  ALLOWED_VOICES,
+  DEFAULT_VOICE,
+  TIME_LIMIT_MS,
+  VoiceName,
+} from "./config";
+import { rackyLog } from "../utils/log";
+
+export const TURN_DETECTION_TYPES = ["server_vad", "semantic_vad"] as const;
+export type TurnDetectionType = (typeof TURN_DETECTION_TYPES)[number];
+
+// Realtime session audio; pcm16 is transcoded in the Worker (src/audio)
+export const AUDIO_FORMATS = ["g711_ulaw", "pcm16"] as const;
+export type AudioFormat = (typeof AUDIO_FORMATS)[number];
+
+export const CALL_PROFILE_NAMES = ["default", "sales", "support"] as const;
+export type CallProfileName = (typeof CALL_PROFILE_NAMES)[number];
+
+export type CallConfig = {
+  profile: CallProfileName;
+  voice: VoiceName;
+  temperature: number;
+  turnDetection: TurnDetectionType;
+  timeLimitMs: number;
+  audioFormat: AudioFormat;
+};
+
+export type CallConfigInput = Partial<Record<keyof CallConfig, unknown>>;
+
+// Realtime API accepts 0.6-1.2
+export const CALL_TEMPERATURE_MIN = 0.6;
+export const CALL_TEMPERATURE_MAX = 1.2;
+export const CALL_TIME_LIMIT_MIN_MS = 60_000;
+
+export const DEFAULT_CALL_CONFIG: CallConfig = {
+  profile: "default",
+  voice: DEFAULT_VOICE,
+  temperature: 0.8,
+  turnDetection: "server_vad",
+  timeLimitMs: TIME_LIMIT_MS,
+  audioFormat: "g711_ulaw",
+};
+
+// Named behaviors a line can run; instructions are added to the base prompt
+export const CALL_PROFILES: Record<
+  CallProfileName,
+  { instructions: string; defaults: Partial<CallConfig> }
+> = {
+  default: { instructions: "", defaults: {} },
+  sales: {
+    instructions:
+      "Line: This is the sales line. Focus on understanding the project, sharing price ranges with the estimate tool, and booking a follow-up.",
+    defaults: { voice: "ash", temperature: 0.9 },
+  },
+  support: {
+    instructions:
+      "Line: This is the support line for existing customers. Be patient, troubleshoot step by step, and offer a transfer to the team for warranty or billing questions.",
+    defaults: {
+      voice: "sage",
+      temperature: 0.7,
+      turnDetection: "semantic_vad",
+    },
+  },
+};
+
+// Which profile answers on which of our numbers (E.164)
+export const CALL_PROFILES_BY_NUMBER: Record<string, CallProfileName> = {
+  "+14082605145": "default",
+};
+
+function isOneOf<T extends string>(
+  allowed: ReadonlyArray<T>,
+  value: unknown
+): value is T {
+  return typeof value === "string" && allowed.includes(value as T);
+}
+
+/**
+ * Validates untrusted call settings against the allowlists; anything invalid
+ * falls back to the profile default, then the tenant's, then the global default.
+ */
+export function resolveCallConfig(
+  input: CallConfigInput = {},
+  tenantDefaults: Partial<CallConfig> = {}
+): CallConfig {
+  const profile = isOneOf(CALL_PROFILE_NAMES, input.profile)
+    ? input.profile
+    : DEFAULT_CALL_CONFIG.profile;
+  const base: CallConfig = {
+    ...DEFAULT_CALL_CONFIG,
+    ...tenantDefaults,
+    ...CALL_PROFILES[profile].defaults,
+    profile,
+  };
+  const rejected: string[] = [];
+
+  let voice = base.voice;
+  if (input.voice !== undefined) {
+    const v = String(input.voice).toLowerCase();
+    if (isOneOf(ALLOWED_VOICES, v)) voice = v;
+    else rejected.push("voice");
+  }
+
+  let temperature = base.temperature;
+  if (input.temperature !== undefined) {
+    const t = Number(input.temperature);
+    if (
+      Number.isFinite(t) &&
+      t >= CALL_TEMPERATURE_MIN &&
+      t <= CALL_TEMPERATURE_MAX
+    ) {
+      temperature = t;
+    } else rejected.push("temperature");
+  }
+
+  let turnDetection = base.turnDetection;
+  if (input.turnDetection !== undefined) {
+    if (isOneOf(TURN_DETECTION_TYPES, input.turnDetection)) {
+      turnDetection = input.turnDetection;
+    } else rejected.push("turnDetection");
+  }
+
+  let timeLimitMs = base.timeLimitMs;
+  if (input.timeLimitMs !== undefined) {
+    const ms = Number(input.timeLimitMs);
+    if (
+      Number.isFinite(ms) &&
+      ms >= CALL_TIME_LIMIT_MIN_MS &&
+      ms <= TIME_LIMIT_MS
+    ) {
+      timeLimitMs = Math.round(ms);
+    } else rejected.push("timeLimitMs");
+  }
+
+  let audioFormat = base.audioFormat;
+  if (input.audioFormat !== undefined) {
+    if (isOneOf(AUDIO_FORMATS, input.audioFormat)) {
+      audioFormat = input.audioFormat;
+    } else rejected.push("audioFormat");
+  }
+
+  if (rejected.length) {
+    rackyLog("[call-config] rejected settings", rejected, input);
+  }
+  return {
+    profile,
+    voice,
+    temperature,
+    turnDetection,
+    timeLimitMs,
+    audioFormat,
+  };
+}
+
+// Settings from the voice webhook URL, e.g. /twilio/voice?profile=sales&voice=sage&audio=pcm16
+export function callConfigFromQuery(params: URLSearchParams): CallConfigInput {
+  const input: CallConfigInput = {};
+  const profile = params.get("profile");
+  if (profile) input.profile = profile.toLowerCase();
+  const voice = params.get("voice");
+  if (voice) input.voice = voice.toLowerCase();
+  const temperature = params.get("temperature");
+  if (temperature) input.temperature = temperature;
+  const vad = params.get("vad");
+  if (vad) input.turnDetection = vad.toLowerCase();
+  const limitSec = params.get("limit");
+  if (limitSec) input.timeLimitMs = Number(limitSec) * 1000;
+  const audio = params.get("audio");
+  if (audio) input.audioFormat = audio.toLowerCase();
+  return input;
+}
+
+export function callProfileForNumber(
+  e164: string | null | undefined
+): CallProfileName | undefined {
+  return e164 ? CALL_PROFILES_BY_NUMBER[e164] : undefined;
+}
+
+export function callProfileInstructions(profile: CallProfileName): string {
+  return CALL_PROFILES[profile].instructions;
+}
@@ -3,6 +3,9 @@ export const DEBUG = true;
 // Realtime API
 export const MODEL = "gpt-4o-realtime-preview";
 export const OPENAI_URL = "wss://api.openai.com/v1/realtime";
+// REALTIME_BACKEND=mock: a canned caller talks over the greeting this long
+// into it, so barge-in and truncation run offline (null: never)
+export const MOCK_BARGE_IN_AFTER_MS: number | null = 600;
 
 export const ALLOWED_VOICES = [
   "alloy",
@@ -42,17 +45,138 @@ export const RL_TWILIO_CONVO_INTERVAL_MS = 30_000; // per 30s
 
 // Time limits
 export const TIME_LIMIT_MS = 10 * 60 * 1000; // 10 minutes hard cap
-export const FINAL_TIME_LIMIT_MESSAGE =
-  "Call time limit reached, please call again to continue chatting. Good bye.";
+export const TIME_LIMIT_WARNING_MS = 60_000; // heads-up this long before the cap
+
+// Per-caller talk time quotas for inbound calls (CallerQuota DO, UTC periods)
+export const CALLER_DAILY_MINUTES = 30;
+export const CALLER_MONTHLY_MINUTES = 300;
+
+// Idle phone calls: silence since the caller last spoke or the assistant's audio last played
+export const IDLE_CHECK_IN_MS = 20_000; // then the model asks if the caller is still there
+export const IDLE_HANG_UP_MS = 40_000; // more silence after the check-in ends the call
 
 // Twilio endpoints and configuration
 export const TWILIO_CONV_BASE = "https://conversations.twilio.com/v1";
 export const TWILIO_API_BASE = "https://api.twilio.com/2010-04-01";
-export const BOT_IDENTITY = "gateframes-bot";
-export const PROJECTED_ADDRESS = "+14082605145"; // must be in your Messaging Service sender pool
-export const TWILIO_NUMBER = PROJECTED_ADDRESS;
 export const CONVO_CONTEXT_LIMIT = 20; // number of recent messages to include for nonstream context
 
+// @call result texts wait this long for the bridge to report how an answered call ended
+export const CALL_RESULT_CLOSE_WAIT_MS = 10_000;
+
+// Async Twilio AMD for outbound calls: no answer delay, result arrives via /twilio/amd
+export const ASYNC_AMD_ENABLED = true;
+
+// In-band answering machine detection (outbound calls; Twilio AMD is off for speed)
+export const VOICEMAIL_DETECT_WINDOW_MS = 30_000; // only inspect the start of the call
+export const VOICEMAIL_LONG_SPEECH_MS = 3_500; // people answer with "Hello?", machines monologue
+export const VOICEMAIL_BEEP_MIN_MS = 120;
+export const VOICEMAIL_SCRIPT_FALLBACK_MS = 5_000; // speak even if no beep/pause is heard
+
+// Call recording (stereo μ-law WAV uploaded to the RECORDINGS R2 bucket)
+export const CALL_RECORDING_DEFAULT = false; // per call: ?record=on|off or token claim
+export const CALL_RECORDING_MAX_MS = TIME_LIMIT_MS + 60_000;
+
+// Post-call SMS recap
+export const CALL_RECAP_ENABLED = true;
+export const CALL_RECAP_MIN_CALLER_TURNS = 1; // skip hang-ups and silent calls
+export const CALL_RECAP_MAX_TRANSCRIPT_CHARS = 12_000;
+
+// Caller memory: recent messages from the caller's 1:1 SMS thread, given to voice calls
+export const CALLER_MEMORY_ENABLED = true;
+export const CALLER_MEMORY_MAX_MESSAGES = 20; // fetched from the thread
+export const CALLER_MEMORY_MAX_CHARS = 2_000; // budget in the realtime instructions
+export const CALLER_MEMORY_MESSAGE_MAX_CHARS = 300; // longer messages are cut
+
+// Call language: starts from the caller's hint, then follows their first turns
+export const LANGUAGE_DETECT_MAX_TURNS = 2; // caller turns checked for a switch
+
+// Keypad (DTMF) input
+export const DTMF_COLLECT_MS = 1200; // group rapid key presses into one message
+
+export type IvrAction =
+  | { type: "ai"; parameters?: Record<string, string> }
+  | { type: "transfer" };
+export type IvrMenuOption = { digit: string; action: IvrAction };
+export type IvrMenu = {
+  enabled: boolean;
+  prompt: string;
+  timeoutSec: number;
+  options: ReadonlyArray<IvrMenuOption>;
+};
+
+// Optional menu played to inbound callers before the AI greeting
+export const IVR_MENU: IvrMenu = {
+  enabled: false,
+  prompt:
+    "Thanks for calling GateFrames. Para español, oprima dos. To speak with a person, press zero. Or stay on the line for our assistant.",
+  timeoutSec: 4,
+  options: [
+    { digit: "2", action: { type: "ai", parameters: { lang: "es" } } },
+    { digit: "0", action: { type: "transfer" } },
+  ],
+};
+
+// Warm transfer to a human (target comes from the TRANSFER_TARGET secret)
+export const TRANSFER_DIAL_TIMEOUT_SEC = 20; // ring the staff line this long
+export const TRANSFER_QUEUE_MAX_WAIT_SEC = 90; // max hold time when transferring to a queue
+export const TRANSFER_FALLBACK: "ai" | "voicemail" = "ai"; // when nobody answers
+export const TRANSFER_VOICEMAIL_MAX_SEC = 120;
+export const TRANSFER_CLOSE_FALLBACK_MS = 10_000; // redirect even if the goodbye never finishes
+// The call's claims ride on the transfer action URL; they must outlive the ringing or hold
+export const TRANSFER_RESUME_TTL_MS =
+  (TRANSFER_DIAL_TIMEOUT_SEC + TRANSFER_QUEUE_MAX_WAIT_SEC) * 1000 + 60_000;
+
+// Mid-call recovery when the OpenAI socket drops
+export const UPSTREAM_RECONNECT_BUDGET_MS = 8_000; // give up after this long
+export const UPSTREAM_RECONNECT_MAX_ATTEMPTS = 3;
+export const UPSTREAM_RECONNECT_BACKOFF_MS = 500; // grows with each attempt
+export const UPSTREAM_QUEUE_MAX = 500; // Twilio events held meanwhile (~10 s of audio)
+export const UPSTREAM_REPLAY_MAX_LINES = 16; // transcript lines replayed into the new session
+export const UPSTREAM_REPLAY_MAX_CHARS = 4_000;
+// After recovery fails: transfer (needs TRANSFER_TARGET) or apologize and hang up
+export const UPSTREAM_FAILURE_FALLBACK: "transfer" | "hangup" = "transfer";
+
+// Pre-flight health of the realtime backend (UpstreamHealth Durable Object)
+export const UPSTREAM_HEALTH_FAILURE_THRESHOLD = 3; // consecutive connect failures
+export const UPSTREAM_HEALTH_COOLDOWN_MS = 60_000; // then let calls try again
+export const UPSTREAM_FALLBACK_DIAL_TIMEOUT_SEC = 20; // FALLBACK_NUMBER rings this long
+export const UPSTREAM_FALLBACK_VOICEMAIL_MAX_SEC = 120;
+
+// Outbound calling campaigns (POST /campaigns)
+export const CAMPAIGN_MAX_TARGETS = 2_000;
+export const CAMPAIGN_CONTEXT_MAX_CHARS = 500; // per-number context given to the AI
+export const CAMPAIGN_DEFAULT_CALLS_PER_MINUTE = 2;
+export const CAMPAIGN_DEFAULT_MAX_CONCURRENT = 2;
+export const CAMPAIGN_DEFAULT_MAX_ATTEMPTS = 3; // no-answer and busy are retried
+export const CAMPAIGN_DEFAULT_RETRY_BACKOFF_MIN = 30; // doubles after each retry
+export const CAMPAIGN_DEFAULT_WINDOW = {
+  timezone: "America/Los_Angeles",
+  startHour: 9, // local time, inclusive
+  endHour: 19, // local time, exclusive
+  days: [1, 2, 3, 4, 5], // 0 = Sunday
+};
+// Free the slot if Twilio never reports how a call ended
+export const CAMPAIGN_DIAL_STALE_MS = TIME_LIMIT_MS + 10 * 60 * 1000;
+
+// Conference calls with the assistant as a participant (POST /conferences)
+export const CONFERENCE_MAX_PARTICIPANTS = 4; // humans dialed in, besides the assistant
+export const CONFERENCE_CONTEXT_MAX_CHARS = 1_000; // job notes given to the AI
+export const CONFERENCE_LABEL_MAX_CHARS = 40; // "Customer", "Installer (Mike)", ...
+export const CONFERENCE_ASSISTANT_LABEL = "assistant";
+// How long the assistant's loopback leg may take to reach the voice webhook
+export const CONFERENCE_JOIN_TTL_MS = 60_000;
+// One-time code the loopback leg keys in (SendDigits) to name its conference
+export const CONFERENCE_JOIN_CODE_DIGITS = 8;
+export const CONFERENCE_JOIN_CODE_TIMEOUT_SEC = 10;
+
+// Voice latency histograms (LatencyMetrics Durable Object, GET /metrics/latency)
+export const LATENCY_METRICS_ENABLED = true;
+// Bucket upper bounds; slower samples land in a final overflow bucket
+export const LATENCY_BUCKETS_MS = [
+  50, 100, 200, 300, 400, 500, 750, 1_000, 1_500, 2_000, 3_000, 5_000, 10_000,
+] as const;
+export const LATENCY_RETENTION_DAYS = 14; // per-day histograms kept this long
+
 // CORS allowlist for client websocket upgrades
 export const ALLOWED_ORIGINS = [
   "https://www.gateframes.com",
@@ -4,6 +4,21 @@ export type Env = {
   TWILIO_ACCOUNT_SID: string;
   TWILIO_AUTH_TOKEN: string;
   RATE_LIMITER: DurableObjectNamespace;
+  TRANSCRIPTS?: DurableObjectNamespace;
+  CALL_SESSIONS?: DurableObjectNamespace;
+  CALL_DIRECTORY?: DurableObjectNamespace;
+  CALL_LOG?: DurableObjectNamespace;
+  CAMPAIGNS?: DurableObjectNamespace;
+  UPSTREAM_HEALTH?: DurableObjectNamespace;
+  CALLER_QUOTAS?: DurableObjectNamespace;
+  CONFERENCES?: DurableObjectNamespace;
+  LATENCY_METRICS?: DurableObjectNamespace;
+  LATENCY_ANALYTICS?: AnalyticsEngineDataset; // optional raw latency samples
+  RECORDINGS?: R2Bucket;
+  ADMIN_API_KEY?: string; // bearer key for the read/admin HTTP APIs
+  TRANSFER_TARGET?: string; // E.164 staff number, or "queue:<name>"
+  FALLBACK_NUMBER?: string; // E.164 line dialed while the realtime backend is down
+  REALTIME_BACKEND?: string; // "openai" (default) or "mock" for offline runs
 };
 
 
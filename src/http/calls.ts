@@ -0,0 +1,111 @@
+import { openSupervisorSocket } from "../calls/callSession";
+import { listActiveCalls, openCallListSocket } from "../calls/directory";
+import { CallRecordFilter, listCallRecords } from "../calls/records";
+import type { Env } from "../config/env";
+import { readTranscript } from "../transcripts/store";
+import { isAdminRequest } from "../utils/auth";
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+function isCallSid(value: string): boolean {
+  return /^[A-Za-z0-9]{10,64}$/.test(value);
+}
+
+// GET /calls/<CallSid>/transcript
+export async function handleCallTranscriptRequest(
+  request: Request,
+  env: Env,
+  callSid: string
+): Promise<Response> {
+  if (!isAdminRequest(request, env))
+    return json({ error: "Unauthorized" }, 401);
+  if (!isCallSid(callSid)) {
+    return json({ error: "Invalid call id" }, 400);
+  }
+  const transcript = await readTranscript(env, callSid);
+  if (!transcript) return json({ error: "Not found" }, 404);
+  return json(transcript);
+}
+
+// GET /calls?status=&direction=&number=&tenant=&since=&limit=
+export async function handleCallListRequest(
+  request: Request,
+  env: Env
+): Promise<Response> {
+  if (!isAdminRequest(request, env))
+    return json({ error: "Unauthorized" }, 401);
+  const params = new URL(request.url).searchParams;
+  const filter: CallRecordFilter = {};
+  const status = params.get("status");
+  if (status) filter.status = status.toLowerCase();
+  const direction = params.get("direction");
+  if (direction === "inbound" || direction === "outbound") {
+    filter.direction = direction;
+  }
+  const number = params.get("number");
+  if (number) filter.number = number.trim();
+  const tenant = params.get("tenant");
+  if (tenant) filter.tenant = tenant;
+  const since = params.get("since");
+  if (since) {
+    if (Number.isNaN(Date.parse(since))) {
+      return json({ error: "Invalid since" }, 400);
+    }
+    filter.since = new Date(since).toISOString();
+  }
+  const limit = Number(params.get("limit"));
+  if (Number.isFinite(limit) && limit > 0) filter.limit = limit;
+  const calls = await listCallRecords(env, filter);
+  if (!calls) return json({ error: "Call log unavailable" }, 503);
+  return json({ calls });
+}
+
+// GET /calls/active
+export async function handleActiveCallsRequest(
+  request: Request,
+  env: Env
+): Promise<Response> {
+  if (!isAdminRequest(request, env))
+    return json({ error: "Unauthorized" }, 401);
+  const calls = await listActiveCalls(env);
+  if (!calls) return json({ error: "Live calls unavailable" }, 503);
+  return json({ calls });
+}
+
+/**
+ * Supervisor sockets (browsers pass the admin key as ?key=):
+ * WS /calls/live pushes the active call list on every change,
+ * WS /calls/<CallSid>/monitor[?audio=1] streams one call's state,
+ * transcript lines, events and optionally both audio tracks, and
+ * WS /calls/<CallSid>/control does the same and also accepts whisper and
+ * barge commands.
+ */
+export async function handleSupervisorSocket(
+  request: Request,
+  env: Env
+): Promise<Response> {
+  if (!isAdminRequest(request, env))
+    return new Response("Unauthorized", { status: 401 });
+  const url = new URL(request.url);
+  const parts = url.pathname.split("/").filter(Boolean);
+  if (parts.length === 2 && parts[1] === "live") {
+    return openCallListSocket(env);
+  }
+  const view = parts[2];
+  if (
+    parts.length === 3 &&
+    (view === "monitor" || view === "control") &&
+    isCallSid(parts[1])
+  ) {
+    return openSupervisorSocket(env, parts[1], {
+      audio: url.searchParams.get("audio") === "1",
+      control: view === "control",
+    });
+  }
+  return new Response("Not Found", { status: 404 });
+}
@@ -0,0 +1,173 @@
+import { campaignRequest, CampaignCreate } from "../campaigns/campaign";
+import {
+  CampaignSettingsInput,
+  resolveCampaignSettings,
+} from "../campaigns/settings";
+import {
+  CAMPAIGN_CONTEXT_MAX_CHARS,
+  CAMPAIGN_MAX_TARGETS,
+} from "../config/config";
+import type { Env } from "../config/env";
+import { DEFAULT_TENANT, getTenant } from "../tenants/registry";
+import { sanitizeUsNumber } from "../twilio/helpers";
+import { isAdminRequest } from "../utils/auth";
+
+type CampaignUpload = {
+  name?: unknown;
+  tenant?: unknown;
+  settings?: CampaignSettingsInput;
+  targets?: unknown;
+};
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+function isCampaignId(value: string): boolean {
+  return /^[A-Za-z0-9-]{8,64}$/.test(value);
+}
+
+// "+<country><number>" as given, otherwise a US number
+export function toE164(raw: string): string | null {
+  const value = raw.trim();
+  if (value.startsWith("+")) {
+    const digits = value.replace(/\D/g, "");
+    return digits.length >= 8 && digits.length <= 15 ? `+${digits}` : null;
+  }
+  const us = sanitizeUsNumber(value);
+  return us ? `+1${us}` : null;
+}
+
+// Targets are "<number>" strings or { number, context } objects
+function parseTargets(raw: unknown): {
+  targets: CampaignCreate["targets"];
+  invalid: string[];
+} {
+  const targets: CampaignCreate["targets"] = [];
+  const invalid: string[] = [];
+  const seen = new Set<string>();
+  for (const item of Array.isArray(raw) ? raw : []) {
+    const entry =
+      typeof item === "string"
+        ? { number: item }
+        : (item as Record<string, unknown>);
+    const number = toE164(String(entry?.number ?? ""));
+    if (!number) {
+      invalid.push(String(entry?.number ?? ""));
+      continue;
+    }
+    if (seen.has(number)) continue;
+    seen.add(number);
+    const context =
+      typeof entry.context === "string" && entry.context.trim()
+        ? entry.context.trim().slice(0, CAMPAIGN_CONTEXT_MAX_CHARS)
+        : null;
+    targets.push({ number, context });
+  }
+  return { targets, invalid };
+}
+
+function relay(res: Response | null): Response {
+  if (!res) return json({ error: "Campaigns unavailable" }, 503);
+  return new Response(res.body, {
+    status: res.status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+// POST /campaigns
+export async function handleCampaignCreate(
+  request: Request,
+  env: Env
+): Promise<Response> {
+  if (!isAdminRequest(request, env))
+    return json({ error: "Unauthorized" }, 401);
+  let body: CampaignUpload;
+  try {
+    body = (await request.json()) as CampaignUpload;
+  } catch {
+    return json({ error: "Invalid JSON" }, 400);
+  }
+
+  const tenant =
+    body.tenant === undefined ? DEFAULT_TENANT : getTenant(String(body.tenant));
+  if (!tenant) return json({ error: "Unknown tenant" }, 400);
+  if (!tenant.twilioNumber) {
+    return json({ error: "Tenant has no phone number" }, 400);
+  }
+
+  const { settings, rejected } = resolveCampaignSettings(body.settings ?? {});
+  if (rejected.length) {
+    return json({ error: "Invalid settings", fields: rejected }, 400);
+  }
+
+  const { targets, invalid } = parseTargets(body.targets);
+  if (invalid.length) {
+    return json({ error: "Invalid numbers", numbers: invalid }, 400);
+  }
+  if (!targets.length) return json({ error: "No targets" }, 400);
+  if (targets.length > CAMPAIGN_MAX_TARGETS) {
+    return json(
+      { error: `At most ${CAMPAIGN_MAX_TARGETS} numbers per campaign` },
+      400
+    );
+  }
+
+  const id = crypto.randomUUID();
+  const create: CampaignCreate = {
+    meta: {
+      id,
+      name:
+        typeof body.name === "string" && body.name.trim()
+          ? body.name.trim()
+          : `${tenant.shortName} campaign ${new Date().toISOString()}`,
+      tenant: tenant.id,
+      origin: new URL(request.url).origin,
+      settings,
+    },
+    targets,
+  };
+  return relay(
+    await campaignRequest(env, id, "/create", {
+      method: "POST",
+      body: JSON.stringify(create),
+    })
+  );
+}
+
+/**
+ * GET /campaigns/<id>                     progress and counts
+ * GET /campaigns/<id>/targets?status=     per-number outcomes
+ * POST /campaigns/<id>/pause|resume|cancel
+ */
+export async function handleCampaignRequest(
+  request: Request,
+  env: Env,
+  id: string,
+  action: string | undefined
+): Promise<Response> {
+  if (!isAdminRequest(request, env))
+    return json({ error: "Unauthorized" }, 401);
+  if (!isCampaignId(id)) return json({ error: "Invalid campaign id" }, 400);
+
+  if (request.method === "GET" && action === undefined) {
+    return relay(await campaignRequest(env, id, "/summary"));
+  }
+  if (request.method === "GET" && action === "targets") {
+    const status = new URL(request.url).searchParams.get("status");
+    const query = status ? `?status=${encodeURIComponent(status)}` : "";
+    return relay(await campaignRequest(env, id, `/targets${query}`));
+  }
+  if (
+    request.method === "POST" &&
+    (action === "pause" || action === "resume" || action === "cancel")
+  ) {
+    return relay(
+      await campaignRequest(env, id, `/${action}`, { method: "POST" })
+    );
+  }
+  return json({ error: "Not found" }, 404);
+}
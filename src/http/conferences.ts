@@ -0,0 +1,335 @@
+import { sendCallEvent } from "../calls/callSession";
+import {
+  conferenceRequest,
+  ConferenceCreate,
+  dropAssistantJoin,
+  getConference,
+  isConferenceName,
+  queueAssistantJoin,
+  reportConferenceEvent,
+} from "../conferences/conference";
+import { resolveCallConfig } from "../config/callConfig";
+import {
+  CONFERENCE_ASSISTANT_LABEL,
+  CONFERENCE_CONTEXT_MAX_CHARS,
+  CONFERENCE_LABEL_MAX_CHARS,
+  CONFERENCE_MAX_PARTICIPANTS,
+} from "../config/config";
+import type { Env } from "../config/env";
+import { DEFAULT_TENANT, getTenant, resolveTenant } from "../tenants/registry";
+import type { RelayTokenClaims } from "../tokens/relay";
+import {
+  addConferenceParticipant,
+  endConference,
+  placeOutboundCalls,
+} from "../twilio/helpers";
+import { isAdminRequest } from "../utils/auth";
+import { rackyError, rackyLog } from "../utils/log";
+import {
+  buildTwimlConnectStream,
+  buildTwimlJoinConference,
+  buildTwimlSayHangup,
+} from "../utils/xml";
+import { toE164 } from "./campaigns";
+import { buildRelayStreamUrl } from "./twilio";
+
+type ConferenceUpload = {
+  tenant?: unknown;
+  context?: unknown;
+  participants?: unknown;
+};
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+function twimlResponse(twiml: string): Response {
+  return new Response(twiml, { headers: { "Content-Type": "text/xml" } });
+}
+
+async function readParams(request: Request): Promise<URLSearchParams> {
+  const url = new URL(request.url);
+  const params = new URLSearchParams(url.searchParams);
+  if (request.method === "POST") {
+    try {
+      const form = await request.formData();
+      for (const [k, v] of form.entries()) {
+        if (typeof v === "string") params.set(k, v);
+      }
+    } catch {}
+  }
+  return params;
+}
+
+function conferenceEventsUrl(origin: string, name: string): string {
+  return `${origin}/twilio/conference/events?conference=${encodeURIComponent(
+    name
+  )}`;
+}
+
+// Participants are "<number>" strings or { number, label } objects
+function parseParticipants(raw: unknown): {
+  participants: ConferenceCreate["participants"];
+  invalid: string[];
+} {
+  const participants: ConferenceCreate["participants"] = [];
+  const invalid: string[] = [];
+  const seen = new Set<string>();
+  for (const item of Array.isArray(raw) ? raw : []) {
+    const entry =
+      typeof item === "string"
+        ? { number: item }
+        : (item as Record<string, unknown>);
+    const number = toE164(String(entry?.number ?? ""));
+    if (!number) {
+      invalid.push(String(entry?.number ?? ""));
+      continue;
+    }
+    if (seen.has(number)) continue;
+    seen.add(number);
+    const label =
+      typeof entry.label === "string" && entry.label.trim()
+        ? entry.label.trim().slice(0, CONFERENCE_LABEL_MAX_CHARS)
+        : `Participant ${participants.length + 1}`;
+    participants.push({ number, label });
+  }
+  return { participants, invalid };
+}
+
+/**
+ * What the voice webhook answers for the assistant's loopback leg: join the
+ * conference, labelled so its own events can be told apart from the humans'.
+ */
+export function buildAssistantConferenceTwiml(
+  origin: string,
+  name: string
+): string {
+  return buildTwimlJoinConference({
+    name,
+    statusCallbackUrl: conferenceEventsUrl(origin, name),
+    participantLabel: CONFERENCE_ASSISTANT_LABEL,
+  });
+}
+
+/**
+ * POST /conferences
+ * The assistant calls our own number; that leg streams to the bridge and its
+ * other end joins the conference. Then each person is dialed in.
+ */
+export async function handleConferenceCreate(
+  request: Request,
+  env: Env
+): Promise<Response> {
+  if (!isAdminRequest(request, env))
+    return json({ error: "Unauthorized" }, 401);
+  let body: ConferenceUpload;
+  try {
+    body = (await request.json()) as ConferenceUpload;
+  } catch {
+    return json({ error: "Invalid JSON" }, 400);
+  }
+
+  const tenant =
+    body.tenant === undefined ? DEFAULT_TENANT : getTenant(String(body.tenant));
+  if (!tenant) return json({ error: "Unknown tenant" }, 400);
+  const from = tenant.twilioNumber;
+  if (!from) return json({ error: "Tenant has no phone number" }, 400);
+
+  const { participants, invalid } = parseParticipants(body.participants);
+  if (invalid.length) {
+    return json({ error: "Invalid numbers", numbers: invalid }, 400);
+  }
+  if (!participants.length) return json({ error: "No participants" }, 400);
+  if (participants.length > CONFERENCE_MAX_PARTICIPANTS) {
+    return json(
+      {
+        error: `At most ${CONFERENCE_MAX_PARTICIPANTS} participants per conference`,
+      },
+      400
+    );
+  }
+  const reserved = participants.find(
+    (p) => p.label.toLowerCase() === CONFERENCE_ASSISTANT_LABEL
+  );
+  if (reserved)
+    return json({ error: "Reserved label", label: reserved.label }, 400);
+
+  const origin = new URL(request.url).origin;
+  const name = `conf-${crypto.randomUUID()}`;
+  const create: ConferenceCreate = {
+    meta: {
+      name,
+      tenant: tenant.id,
+      origin,
+      context:
+        typeof body.context === "string" && body.context.trim()
+          ? body.context.trim().slice(0, CONFERENCE_CONTEXT_MAX_CHARS)
+          : null,
+    },
+    participants,
+  };
+  const created = await conferenceRequest(env, name, "/create", {
+    method: "POST",
+    body: JSON.stringify(create),
+  });
+  if (!created) return json({ error: "Conferences unavailable" }, 503);
+  if (!created.ok) return json({ error: "Could not create conference" }, 500);
+
+  // The assistant first, so it is listening when people pick up. Its leg
+  // keys in the join code so the webhook puts it in this room, not another
+  // ("w" is a half-second pause while the webhook's <Gather> starts)
+  const joinCode = await queueAssistantJoin(env, from, name);
+  if (!joinCode) {
+    return json({ error: "Could not queue the assistant" }, 500);
+  }
+  const [assistantLeg] = await placeOutboundCalls(
+    env,
+    [from],
+    `${origin}/twilio/conference/stream?conference=${encodeURIComponent(name)}`,
+    false,
+    { from, sendDigits: `ww${joinCode}` }
+  );
+  if (!assistantLeg) {
+    await dropAssistantJoin(env, from, name);
+    return json({ error: "Could not connect the assistant" }, 502);
+  }
+
+  for (const p of participants) {
+    const callSid = await addConferenceParticipant(env, name, {
+      from,
+      to: p.number,
+      label: p.label,
+      conferenceStatusCallbackUrl: conferenceEventsUrl(origin, name),
+      statusCallbackUrl: `${origin}/twilio/status?${new URLSearchParams({
+        tenant: tenant.id,
+        conference: name,
+      })}`,
+    });
+    await conferenceRequest(env, name, "/dialed", {
+      method: "POST",
+      body: JSON.stringify({ number: p.number, callSid }),
+    });
+  }
+  rackyLog("[conference] started", name, participants.length);
+  return json(await getConference(env, name), 201);
+}
+
+// GET /conferences/<name>
+export async function handleConferenceRequest(
+  request: Request,
+  env: Env,
+  name: string
+): Promise<Response> {
+  if (!isAdminRequest(request, env))
+    return json({ error: "Unauthorized" }, 401);
+  if (!isConferenceName(name)) {
+    return json({ error: "Invalid conference name" }, 400);
+  }
+  if (request.method !== "GET") return json({ error: "Not found" }, 404);
+  const conference = await getConference(env, name);
+  if (!conference) return json({ error: "Not found" }, 404);
+  return json(conference);
+}
+
+// Voice URL of the assistant's loopback leg: connect it to the bridge
+export async function handleConferenceStream(
+  request: Request,
+  env: Env
+): Promise<Response> {
+  const url = new URL(request.url);
+  const params = await readParams(request);
+  const name = params.get("conference") || "";
+  const callSid = params.get("CallSid") || "";
+  const conference = isConferenceName(name)
+    ? await getConference(env, name)
+    : null;
+  if (!conference || conference.status === "ended") {
+    rackyLog("[conference] stream for unknown or ended conference", name);
+    return twimlResponse(buildTwimlSayHangup());
+  }
+  if (callSid) {
+    await conferenceRequest(env, name, "/assistant", {
+      method: "POST",
+      body: JSON.stringify({ callSid }),
+    });
+  }
+
+  const tenant = resolveTenant({ tenantId: conference.tenant });
+  const claims: RelayTokenClaims = {
+    call: resolveCallConfig({}, { voice: tenant.voice }),
+    tenant: tenant.id,
+    conference: name,
+    ...(conference.context ? { context: conference.context } : {}),
+  };
+  const streamParams = { direction: "outbound", conference: name };
+  const relayUrl = await buildRelayStreamUrl(
+    env,
+    url.host,
+    streamParams,
+    claims
+  );
+  return twimlResponse(buildTwimlConnectStream(relayUrl, streamParams));
+}
+
+/**
+ * Conference status callback: keeps the room's participant list, tells the
+ * assistant who joined, left and is speaking, and ends the conference once
+ * the last person hangs up.
+ */
+export async function handleConferenceEvents(
+  request: Request,
+  env: Env,
+  ctx: ExecutionContext
+): Promise<Response> {
+  const params = await readParams(request);
+  const name = params.get("conference") || params.get("FriendlyName") || "";
+  const event = (params.get("StatusCallbackEvent") || "").toLowerCase();
+  rackyLog("[conference] event", {
+    name,
+    event,
+    callSid: params.get("CallSid"),
+  });
+  if (!isConferenceName(name) || !event) {
+    return new Response("ok", { status: 200 });
+  }
+
+  ctx.waitUntil(
+    (async () => {
+      const result = await reportConferenceEvent(env, name, {
+        event,
+        conferenceSid: params.get("ConferenceSid") || "",
+        callSid: params.get("CallSid") || "",
+        label: params.get("ParticipantLabel") || null,
+      });
+      if (!result) return;
+      const { label, assistantCallSid } = result;
+      if (label && !result.assistant && assistantCallSid) {
+        if (event === "participant-join" || event === "participant-leave") {
+          await sendCallEvent(env, assistantCallSid, {
+            type: "conference_participant",
+            label,
+            joined: event === "participant-join",
+          });
+        }
+        if (
+          event === "participant-speech-start" ||
+          event === "participant-speech-stop"
+        ) {
+          await sendCallEvent(env, assistantCallSid, {
+            type: "conference_speaker",
+            label,
+            speaking: event === "participant-speech-start",
+          });
+        }
+      }
+      if (result.empty && result.conferenceSid) {
+        rackyLog("[conference] everyone left; ending", name);
+        await endConference(env, result.conferenceSid);
+      }
+    })().catch((e) => rackyError("[conference] event failed", e))
+  );
+  return new Response("ok", { status: 200 });
+}
@@ -1,16 +1,22 @@
-import { BOT_IDENTITY, CONVO_CONTEXT_LIMIT } from "../config/config";
+import { ASYNC_AMD_ENABLED, CONVO_CONTEXT_LIMIT } from "../config/config";
 import type { Env } from "../config/env";
+import { DEFAULT_LANGUAGE, Language, messagesFor } from "../i18n/catalog";
+import { detectLanguage } from "../i18n/detect";
 import { generateTextDirect } from "../openai/text";
 import { chatPrompt, textConcatPrompt } from "../prompts/chat";
+import { DEFAULT_TENANT, isBotIdentity, Tenant } from "../tenants/registry";
 import {
   cleanseGroupMentions,
+  countHumanParticipants,
   createConversationWithParticipants,
   ensureBotParticipant,
   fetchConversationHistoryAsUiMessages,
+  fetchConversationParticipants,
   parseCallNumbers,
   parseGroupNumbers,
   placeOutboundCalls,
   sanitizeUsNumber,
+  tenantForParticipants,
   twilioGet,
   twilioPost,
   UiMessage,
@@ -63,6 +69,8 @@ export async function handleTwilioConversationsWebhook(
 
   ctx.waitUntil(
     (async () => {
+      let tenant: Tenant = DEFAULT_TENANT;
+      let language: Language = DEFAULT_LANGUAGE;
       try {
         if (!conversationSid) return;
         if (
@@ -110,13 +118,23 @@ export async function handleTwilioConversationsWebhook(
         }
 
         if (!body) return;
-        if (author === BOT_IDENTITY || author === "system") return;
+        if (isBotIdentity(author) || author === "system") return;
 
         if (dedupeKey && processed.has(dedupeKey)) {
           rackyLog("[dedupe] already processed", dedupeKey);
           return;
         }
         if (dedupeKey) processed.set(dedupeKey, now);
+        // Our canned replies follow the language of the message we answer
+        language = detectLanguage(body) ?? DEFAULT_LANGUAGE;
+        const messages = messagesFor(language);
+
+        // Which storefront this thread belongs to decides the bot and prompts
+        const participants = await fetchConversationParticipants(
+          env,
+          conversationSid
+        );
+        tenant = tenantForParticipants(participants);
 
         const callTargets = parseCallNumbers(body);
         if (callTargets.length > 0) {
@@ -127,23 +145,40 @@ export async function handleTwilioConversationsWebhook(
           const voicemailMode = false;
           // NOTE VOICEMAILS WORK WITHOUT THIS BECAUSE AI IS SMART ENOUGH TO HANDLE VOICEMAILS
           // Twilio AMD voicemailMode causes 5-8sec delay after call is answered which is unacceptable...
-          const started = await placeOutboundCalls(
-            env,
-            e164Targets,
-            voiceUrl,
-            voicemailMode
-          );
+          // Async AMD has no delay; the result is pushed to the live bridge instead.
+          const from = tenant.twilioNumber;
+          // The result of each call is texted back to this thread
+          const statusQuery = new URLSearchParams({
+            notify: conversationSid,
+            tenant: tenant.id,
+            lang: language,
+          });
+          const started = from
+            ? await placeOutboundCalls(
+                env,
+                e164Targets,
+                voiceUrl,
+                voicemailMode,
+                {
+                  from,
+                  statusCallbackUrl: `${origin}/twilio/status?${statusQuery}`,
+                  ...(ASYNC_AMD_ENABLED
+                    ? { amdCallbackUrl: `${origin}/twilio/amd` }
+                    : {}),
+                }
+              )
+            : [];
 
           const humanList = e164Targets.join(", ");
           const ack =
             started.length > 0
-              ? `Calling ${humanList} now!`
-              : `Sorry, I couldn't call ${humanList}`;
-          await ensureBotParticipant(env, conversationSid);
+              ? messages.smsCalling(humanList)
+              : messages.smsCallFailed(humanList);
+          await ensureBotParticipant(env, conversationSid, tenant);
           await twilioPost(
             env,
             `/Conversations/${conversationSid}/Messages`,
-            new URLSearchParams({ Author: BOT_IDENTITY, Body: ack })
+            new URLSearchParams({ Author: tenant.botIdentity, Body: ack })
           );
           return;
         }
@@ -160,42 +195,25 @@ export async function handleTwilioConversationsWebhook(
           const ch = await createConversationWithParticipants(
             env,
             all,
-            `GF Group ${new Date().toISOString()}`
+            tenant,
+            `${tenant.shortName} Group ${new Date().toISOString()}`
           );
-          const ack = ch
-            ? `I created a new group and sent an intro message. You should see it as a new thread.`
-            : `Sorry, I couldn't create the group.`;
-          await ensureBotParticipant(env, conversationSid);
+          const ack = ch ? messages.smsGroupCreated : messages.smsGroupFailed;
+          await ensureBotParticipant(env, conversationSid, tenant);
           await twilioPost(
             env,
             `/Conversations/${conversationSid}/Messages`,
-            new URLSearchParams({ Author: BOT_IDENTITY, Body: ack })
+            new URLSearchParams({ Author: tenant.botIdentity, Body: ack })
           );
           return;
         }
 
-        let isGroup = false;
-        try {
-          const partsRes = await twilioGet(
-            env,
-            `/Conversations/${conversationSid}/Participants`
-          );
-          const parts = (await partsRes.json()) as {
-            participants?: Array<{ identity?: string }>;
-          };
-          const nonBot = (parts.participants || []).filter(
-            (p) =>
-              ![BOT_IDENTITY, "system"].includes(
-                (p.identity || "").toLowerCase()
-              )
-          );
-          isGroup = nonBot.length >= 2;
-        } catch {}
+        const isGroup = countHumanParticipants(participants) >= 2;
         if (isGroup && !/(^|\s)@ai(\b|\s|:)/i.test(body)) return;
 
-        await ensureBotParticipant(env, conversationSid);
+        await ensureBotParticipant(env, conversationSid, tenant);
 
-        let reply = `Sorry, I'm currently under maintenance..`;
+        let reply = messages.smsMaintenance;
         try {
           const history: UiMessage[] =
             await fetchConversationHistoryAsUiMessages(env, conversationSid, {
@@ -210,7 +228,7 @@ export async function handleTwilioConversationsWebhook(
           ).trim();
 
           // Build messages from actual history roles; drop duplicate latest user turn
-          const messages: UiMessage[] = [];
+          const chatMessages: UiMessage[] = [];
           for (let i = 0; i < history.length; i++) {
             const m = history[i];
             const text = (m.parts?.[0]?.text || "").trim();
@@ -218,27 +236,29 @@ export async function handleTwilioConversationsWebhook(
             const isLast = i === history.length - 1;
             if (isLast && m.role === "user" && text === incomingUserText)
               continue;
-            messages.push(m);
+            chatMessages.push(m);
           }
           // Append latest user message last
-          messages.push({
+          chatMessages.push({
             id: crypto.randomUUID(),
             role: "user",
             parts: [{ type: "text", text: incomingUserText }],
           });
 
           const timeStamp = new Date().toISOString();
+          // On failure the catalog's maintenance line above is sent instead
           reply = await generateTextDirect(
             env,
-            messages,
-            textConcatPrompt(chatPrompt(timeStamp))
+            chatMessages,
+            textConcatPrompt(chatPrompt(tenant, timeStamp)),
+            { throwOnError: true }
           );
         } catch {}
 
         await twilioPost(
           env,
           `/Conversations/${conversationSid}/Messages`,
-          new URLSearchParams({ Author: BOT_IDENTITY, Body: reply })
+          new URLSearchParams({ Author: tenant.botIdentity, Body: reply })
         );
       } catch (e) {
         try {
@@ -246,8 +266,8 @@ export async function handleTwilioConversationsWebhook(
             env,
             `/Conversations/${conversationSid}/Messages`,
             new URLSearchParams({
-              Author: BOT_IDENTITY,
-              Body: `Sorry, I'm currently under maintenance...`,
+              Author: tenant.botIdentity,
+              Body: messagesFor(language).smsMaintenance,
             })
           );
         } catch {}
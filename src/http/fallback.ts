@@ -0,0 +1,173 @@
+import {
+  UPSTREAM_FALLBACK_DIAL_TIMEOUT_SEC,
+  UPSTREAM_FALLBACK_VOICEMAIL_MAX_SEC,
+} from "../config/config";
+import type { Env } from "../config/env";
+import {
+  DEFAULT_LANGUAGE,
+  Language,
+  messagesFor,
+  normalizeLanguage,
+} from "../i18n/catalog";
+import { resolveTenant, Tenant } from "../tenants/registry";
+import { parseTransferTarget } from "../twilio/helpers";
+import { postVoicemailToThread } from "../twilio/voicemail";
+import { rackyLog } from "../utils/log";
+import { buildTwiml, TwimlVerb } from "../utils/xml";
+
+const ANSWERED_DIAL_STATUSES = ["completed", "answered"];
+
+function twimlResponse(twiml: string): Response {
+  return new Response(twiml, { headers: { "Content-Type": "text/xml" } });
+}
+
+// Tenant and language ride on our callback URLs
+function callbackQuery(tenant: Tenant, language: Language): string {
+  return new URLSearchParams({ tenant: tenant.id, lang: language }).toString();
+}
+
+function callbackLanguage(url: URL): Language {
+  return normalizeLanguage(url.searchParams.get("lang")) ?? DEFAULT_LANGUAGE;
+}
+
+function recordVerbs(
+  origin: string,
+  tenant: Tenant,
+  language: Language
+): TwimlVerb[] {
+  const messages = messagesFor(language);
+  return [
+    {
+      verb: "Say",
+      text: messages.fallbackVoicemail,
+      language: messages.sayLanguage,
+    },
+    {
+      verb: "Record",
+      action: `${origin}/twilio/fallback/voicemail?${callbackQuery(
+        tenant,
+        language
+      )}`,
+      maxLength: UPSTREAM_FALLBACK_VOICEMAIL_MAX_SEC,
+    },
+  ];
+}
+
+/**
+ * What the voice webhook answers instead of a media stream while the
+ * realtime backend is down: an apology, then the FALLBACK_NUMBER line if
+ * set, otherwise a voicemail. Calls we placed just end politely.
+ */
+export function buildUpstreamFallbackTwiml(
+  env: Env,
+  origin: string,
+  tenant: Tenant,
+  direction: "inbound" | "outbound" | "unknown",
+  language: Language
+): string {
+  const messages = messagesFor(language);
+  const say = (text: string): TwimlVerb => ({
+    verb: "Say",
+    text,
+    language: messages.sayLanguage,
+  });
+  const apology = say(
+    `${messages.thanksForCalling(tenant.brand)} ${messages.assistantUnavailable}`
+  );
+  if (direction === "outbound") {
+    return buildTwiml([
+      say(`${messages.assistantUnavailable} ${messages.fallbackOutbound}`),
+      { verb: "Hangup" },
+    ]);
+  }
+  const backup = parseTransferTarget(env.FALLBACK_NUMBER);
+  if (backup?.kind === "number") {
+    return buildTwiml([
+      apology,
+      say(messages.fallbackDial),
+      {
+        verb: "Dial",
+        number: backup.number,
+        action: `${origin}/twilio/fallback/dial?${callbackQuery(
+          tenant,
+          language
+        )}`,
+        timeout: UPSTREAM_FALLBACK_DIAL_TIMEOUT_SEC,
+        callerId: tenant.twilioNumber ?? undefined,
+      },
+    ]);
+  }
+  return buildTwiml([apology, ...recordVerbs(origin, tenant, language)]);
+}
+
+// <Dial> action for the backup line: voicemail when nobody picked up
+export async function handleFallbackDialResult(
+  request: Request
+): Promise<Response> {
+  const url = new URL(request.url);
+  let dialStatus = "";
+  try {
+    const form = await request.formData();
+    dialStatus = (
+      (form.get("DialCallStatus") as string | null) || ""
+    ).toLowerCase();
+  } catch {}
+  rackyLog("[fallback] dial result", dialStatus);
+  if (ANSWERED_DIAL_STATUSES.includes(dialStatus)) {
+    return twimlResponse(buildTwiml([{ verb: "Hangup" }]));
+  }
+  const tenant = resolveTenant({ tenantId: url.searchParams.get("tenant") });
+  return twimlResponse(
+    buildTwiml(recordVerbs(url.origin, tenant, callbackLanguage(url)))
+  );
+}
+
+// <Record> action: posts the voicemail to the caller's SMS thread
+export async function handleFallbackVoicemail(
+  request: Request,
+  env: Env,
+  ctx: ExecutionContext
+): Promise<Response> {
+  const url = new URL(request.url);
+  let form: FormData | null = null;
+  try {
+    form = await request.formData();
+  } catch {}
+  const field = (name: string) => (form?.get(name) as string | null) || "";
+  const callerE164 = field("From");
+  const recordingUrl = field("RecordingUrl");
+  const durationRaw = field("RecordingDuration");
+  const tenant = resolveTenant({
+    tenantId: url.searchParams.get("tenant"),
+    number: field("To"),
+  });
+  const language = callbackLanguage(url);
+  const messages = messagesFor(language);
+  rackyLog("[fallback] voicemail recorded", {
+    callSid: field("CallSid"),
+    from: callerE164,
+    recordingUrl,
+    durationSec: durationRaw,
+  });
+  if (recordingUrl && callerE164.startsWith("+")) {
+    ctx.waitUntil(
+      postVoicemailToThread(env, {
+        tenant,
+        callerE164,
+        recordingUrl,
+        durationSec: durationRaw ? Number(durationRaw) : null,
+        language,
+      }).then(() => {})
+    );
+  }
+  return twimlResponse(
+    buildTwiml([
+      {
+        verb: "Say",
+        text: messages.voicemailThanks,
+        language: messages.sayLanguage,
+      },
+      { verb: "Hangup" },
+    ])
+  );
+}
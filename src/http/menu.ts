@@ -0,0 +1,97 @@
+import { callProfileForNumber, resolveCallConfig } from "../config/callConfig";
+import { IVR_MENU } from "../config/config";
+import type { Env } from "../config/env";
+import { DEFAULT_LANGUAGE } from "../i18n/catalog";
+import { languageForNumber } from "../i18n/detect";
+import { resolveTenant } from "../tenants/registry";
+import type { RelayTokenClaims } from "../tokens/relay";
+import { parseTransferTarget } from "../twilio/helpers";
+import { rackyLog } from "../utils/log";
+import { buildTwimlConnectStream, buildTwimlGatherMenu } from "../utils/xml";
+import { buildTransferTwiml } from "./transfer";
+import { buildRelayStreamUrl } from "./twilio";
+
+type CallDirection = "inbound" | "outbound" | "unknown";
+
+export function buildIvrMenuTwiml(
+  origin: string,
+  direction: CallDirection,
+  sayLanguage?: string
+) {
+  const query = new URLSearchParams({ direction }).toString();
+  return buildTwimlGatherMenu({
+    prompt: IVR_MENU.prompt,
+    sayLanguage,
+    actionUrl: `${origin}/twilio/menu?${query}`,
+    timeoutSec: IVR_MENU.timeoutSec,
+  });
+}
+
+// <Gather> action: routes the caller based on the key they pressed
+export async function handleIvrMenuSelection(
+  request: Request,
+  env: Env
+): Promise<Response> {
+  const url = new URL(request.url);
+  let digits = url.searchParams.get("Digits") || "";
+  let caller = url.searchParams.get("From") || "";
+  let lineNumber = url.searchParams.get("To") || "";
+  if (request.method === "POST") {
+    try {
+      const form = await request.formData();
+      const d = form.get("Digits");
+      if (typeof d === "string") digits = d;
+      const from = form.get("From");
+      if (typeof from === "string") caller = from;
+      const to = form.get("To");
+      if (typeof to === "string") lineNumber = to;
+    } catch {}
+  }
+  const dirParam = (url.searchParams.get("direction") || "").toLowerCase();
+  const direction: CallDirection =
+    dirParam === "inbound" || dirParam === "outbound" ? dirParam : "unknown";
+
+  const tenant = resolveTenant({ number: lineNumber });
+
+  const option = IVR_MENU.options.find((o) => o.digit === digits.trim());
+  rackyLog("[ivr] selection", { digits, action: option?.action.type ?? "ai" });
+
+  const claims: RelayTokenClaims = {
+    call: resolveCallConfig(
+      { profile: callProfileForNumber(lineNumber) },
+      { voice: tenant.voice }
+    ),
+    tenant: tenant.id,
+    ...(caller ? { caller } : {}),
+  };
+  if (option?.action.type === "transfer") {
+    const target = parseTransferTarget(env.TRANSFER_TARGET);
+    if (target) {
+      return new Response(
+        await buildTransferTwiml(
+          env,
+          url.origin,
+          target,
+          direction,
+          tenant,
+          claims,
+          languageForNumber(caller) ?? DEFAULT_LANGUAGE
+        ),
+        { headers: { "Content-Type": "text/xml" } }
+      );
+    }
+  }
+
+  const extra =
+    option?.action.type === "ai" ? (option.action.parameters ?? {}) : {};
+  const parameters: Record<string, string> = {
+    direction,
+    amd: "unknown",
+    ...(digits ? { menu: digits } : {}),
+    ...extra,
+  };
+  const relayUrl = await buildRelayStreamUrl(env, url.host, parameters, claims);
+  return new Response(buildTwimlConnectStream(relayUrl, parameters), {
+    headers: { "Content-Type": "text/xml" },
+  });
+}
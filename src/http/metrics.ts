@@ -0,0 +1,33 @@
+import type { Env } from "../config/env";
+import { latencyMetricsRequest } from "../metrics/latency";
+import { isAdminRequest } from "../utils/auth";
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+// GET /metrics/latency?metric=&direction=&voice=&days=
+export async function handleLatencyMetricsRequest(
+  request: Request,
+  env: Env
+): Promise<Response> {
+  if (!isAdminRequest(request, env))
+    return json({ error: "Unauthorized" }, 401);
+  const query = new URLSearchParams();
+  for (const name of ["metric", "direction", "voice", "days"]) {
+    const value = new URL(request.url).searchParams.get(name);
+    if (value) query.set(name, value);
+  }
+  const res = await latencyMetricsRequest(
+    env,
+    `/histograms?${query.toString()}`
+  );
+  if (!res) return json({ error: "Metrics unavailable" }, 503);
+  return new Response(res.body, {
+    status: res.status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
@@ -0,0 +1,187 @@
+import {
+  TRANSFER_DIAL_TIMEOUT_SEC,
+  TRANSFER_FALLBACK,
+  TRANSFER_QUEUE_MAX_WAIT_SEC,
+  TRANSFER_RESUME_TTL_MS,
+  TRANSFER_VOICEMAIL_MAX_SEC,
+} from "../config/config";
+import type { Env } from "../config/env";
+import {
+  DEFAULT_LANGUAGE,
+  Language,
+  messagesFor,
+  normalizeLanguage,
+} from "../i18n/catalog";
+import { getTenant, Tenant } from "../tenants/registry";
+import { generateRelayAuthToken, RelayTokenClaims } from "../tokens/relay";
+import type { TransferTarget } from "../twilio/helpers";
+import { readAuthPayload } from "../utils/auth";
+import { rackyLog } from "../utils/log";
+import {
+  buildTwimlConnectStream,
+  buildTwimlQueueWait,
+  buildTwimlRecordVoicemail,
+  buildTwimlSayHangup,
+  buildTwimlTransfer,
+} from "../utils/xml";
+import { buildRelayStreamUrl } from "./twilio";
+
+type CallDirection = "inbound" | "outbound" | "unknown";
+
+const ANSWERED_DIAL_STATUSES = ["completed", "answered"];
+const ANSWERED_QUEUE_RESULTS = ["bridged", "bridging-in-process"];
+
+function twimlResponse(twiml: string): Response {
+  return new Response(twiml, { headers: { "Content-Type": "text/xml" } });
+}
+
+async function readParams(request: Request): Promise<URLSearchParams> {
+  const url = new URL(request.url);
+  const params = new URLSearchParams(url.searchParams);
+  if (request.method === "POST") {
+    try {
+      const form = await request.formData();
+      for (const [k, v] of form.entries()) {
+        if (typeof v === "string") params.set(k, v);
+      }
+    } catch {}
+  }
+  return params;
+}
+
+function paramsLanguage(params: URLSearchParams): Language {
+  return normalizeLanguage(params.get("lang")) ?? DEFAULT_LANGUAGE;
+}
+
+/**
+ * `claims` are the call's relay token claims; they travel encrypted on the
+ * action URL so a failed transfer resumes the same session. `language` is
+ * what the caller hears from here on.
+ */
+export async function buildTransferTwiml(
+  env: Env,
+  origin: string,
+  target: TransferTarget,
+  direction: CallDirection,
+  tenant: Tenant,
+  claims: RelayTokenClaims,
+  language: Language,
+  apology?: string
+): Promise<string> {
+  const messages = messagesFor(language);
+  const query = new URLSearchParams({
+    direction,
+    tenant: tenant.id,
+    lang: language,
+    claims: await generateRelayAuthToken(
+      env,
+      "twilio",
+      claims,
+      TRANSFER_RESUME_TTL_MS
+    ),
+  }).toString();
+  return buildTwimlTransfer({
+    target,
+    actionUrl: `${origin}/twilio/transfer?${query}`,
+    waitUrl: `${origin}/twilio/transfer/wait?lang=${language}`,
+    timeoutSec: TRANSFER_DIAL_TIMEOUT_SEC,
+    callerId: tenant.twilioNumber ?? undefined,
+    sayText: apology
+      ? `${apology} ${messages.transferConnecting}`
+      : messages.transferConnecting,
+    sayLanguage: messages.sayLanguage,
+  });
+}
+
+// <Dial>/<Enqueue> action: decides what happens once the staff leg ends
+export async function handleTransferResult(
+  request: Request,
+  env: Env
+): Promise<Response> {
+  const url = new URL(request.url);
+  const params = await readParams(request);
+  const dialStatus = (params.get("DialCallStatus") || "").toLowerCase();
+  const queueResult = (params.get("QueueResult") || "").toLowerCase();
+  const callSid = params.get("CallSid");
+  const language = paramsLanguage(params);
+  const messages = messagesFor(language);
+  rackyLog("[transfer] result", { callSid, dialStatus, queueResult });
+
+  if (
+    ANSWERED_DIAL_STATUSES.includes(dialStatus) ||
+    ANSWERED_QUEUE_RESULTS.includes(queueResult)
+  ) {
+    return twimlResponse(buildTwimlSayHangup());
+  }
+  // Caller hung up while waiting; nothing left to do
+  if (queueResult === "hangup") return twimlResponse(buildTwimlSayHangup());
+
+  if (TRANSFER_FALLBACK === "voicemail") {
+    return twimlResponse(
+      buildTwimlRecordVoicemail({
+        sayText: messages.transferNoAnswerVoicemail,
+        sayLanguage: messages.sayLanguage,
+        actionUrl: `${url.origin}/twilio/transfer/voicemail?lang=${language}`,
+        maxLengthSec: TRANSFER_VOICEMAIL_MAX_SEC,
+      })
+    );
+  }
+
+  const dirParam = (params.get("direction") || "").toLowerCase();
+  const direction: CallDirection =
+    dirParam === "inbound" || dirParam === "outbound" ? dirParam : "unknown";
+  // Same claims as before the transfer; just the tenant if they expired
+  const original = await readAuthPayload(
+    url.searchParams.get("claims"),
+    env,
+    "twilio"
+  );
+  const tenant = getTenant(params.get("tenant"));
+  const streamParams = {
+    direction,
+    resume: "transfer_failed",
+    lang: language,
+  };
+  const relayUrl = await buildRelayStreamUrl(
+    env,
+    url.host,
+    streamParams,
+    original?.claims ?? (tenant ? { tenant: tenant.id } : undefined)
+  );
+  return twimlResponse(
+    buildTwimlConnectStream(relayUrl, streamParams, {
+      sayText: messages.transferNoAnswerResume,
+      sayLanguage: messages.sayLanguage,
+    })
+  );
+}
+
+// <Enqueue> waitUrl: hold message, then leave the queue after the max wait
+export async function handleTransferWait(request: Request): Promise<Response> {
+  const params = await readParams(request);
+  const queueTime = Number(params.get("QueueTime") || 0);
+  const messages = messagesFor(paramsLanguage(params));
+  return twimlResponse(
+    buildTwimlQueueWait(
+      messages.transferQueueWait,
+      queueTime >= TRANSFER_QUEUE_MAX_WAIT_SEC,
+      messages.sayLanguage
+    )
+  );
+}
+
+export async function handleTransferVoicemail(
+  request: Request
+): Promise<Response> {
+  const params = await readParams(request);
+  rackyLog("[transfer] voicemail recorded", {
+    callSid: params.get("CallSid"),
+    from: params.get("From"),
+    recordingUrl: params.get("RecordingUrl"),
+    durationSec: params.get("RecordingDuration"),
+  });
+  const messages = messagesFor(paramsLanguage(params));
+  return twimlResponse(
+    buildTwimlSayHangup(messages.voicemailThanks, messages.sayLanguage)
+  );
+}
@@ -1,23 +1,84 @@
+import { sendCallEvent } from "../calls/callSession";
+import { getCampaignTarget, reportCampaignCall } from "../campaigns/campaign";
+import {
+  isConferenceName,
+  reportConferenceCallStatus,
+  takeAssistantJoin,
+} from "../conferences/conference";
+import { CallDirection, updateCallRecord } from "../calls/records";
+import {
+  callConfigFromQuery,
+  callProfileForNumber,
+  resolveCallConfig,
+} from "../config/callConfig";
+import {
+  CALL_RESULT_CLOSE_WAIT_MS,
+  CAMPAIGN_CONTEXT_MAX_CHARS,
+  CONFERENCE_JOIN_CODE_DIGITS,
+  CONFERENCE_JOIN_CODE_TIMEOUT_SEC,
+  IVR_MENU,
+} from "../config/config";
 import type { Env } from "../config/env";
-import { generateRelayAuthToken } from "../tokens/relay";
-import { buildTwimlConnectStream } from "../utils/xml";
+import {
+  DEFAULT_LANGUAGE,
+  messagesFor,
+  normalizeLanguage,
+} from "../i18n/catalog";
+import { languageForNumber } from "../i18n/detect";
+import { realtimeBackendConfigured } from "../realtime/backend";
+import { getUpstreamHealth } from "../realtime/health";
+import { resolveTenant, tenantForNumber } from "../tenants/registry";
+import { generateRelayAuthToken, RelayTokenClaims } from "../tokens/relay";
+import { followUpCallResult } from "../twilio/callResult";
+import { endConference } from "../twilio/helpers";
+import { getCallerQuota } from "../utils/callerQuota";
+import { rackyError, rackyLog } from "../utils/log";
+import {
+  buildTwimlConnectStream,
+  buildTwimlGatherDigits,
+  buildTwimlSayHangup,
+} from "../utils/xml";
+import { buildAssistantConferenceTwiml } from "./conferences";
+import { buildUpstreamFallbackTwiml } from "./fallback";
+import { buildIvrMenuTwiml } from "./menu";
+
+export async function buildRelayStreamUrl(
+  env: Env,
+  host: string,
+  query: Record<string, string> = {},
+  claims?: RelayTokenClaims
+): Promise<string> {
+  const token = await generateRelayAuthToken(env, "twilio", claims);
+  const params = new URLSearchParams({ mode: "twilio", ...query });
+  return `wss://${host}/token/${token}?${params.toString()}`;
+}
+
+// Twilio's Direction values: inbound, outbound-api, outbound-dial
+function parseTwilioDirection(raw: string | null | undefined): CallDirection {
+  const lower = (raw || "").toLowerCase();
+  if (lower.includes("outbound")) return "outbound";
+  if (lower.includes("inbound")) return "inbound";
+  return "unknown";
+}
 
 export async function handleTwilioVoiceWebhook(
   request: Request,
-  env: Env
+  env: Env,
+  ctx: ExecutionContext
 ): Promise<Response> {
   const webhookStartTime = Date.now();
   console.log(`[timing] Twilio webhook called at ${new Date().toISOString()}`);
   
   const url = new URL(request.url);
-  const token = await generateRelayAuthToken(env, "twilio");
-  const wssOrigin = `wss://${url.host}`;
-  let relayUrl = `${wssOrigin}/token/${token}?mode=twilio`;
 
   let answeredBy: string | null = null;
   let direction: "inbound" | "outbound" | "unknown" = "unknown";
   let machineDetectionDuration: string | null = null;
   let callStatus: string | null = null;
+  let fromNumber = "";
+  let toNumber = "";
+  let callSid = "";
+  let digits = "";
   
   if (request.method === "POST") {
     try {
@@ -35,12 +96,16 @@ export async function handleTwilioVoiceWebhook(
           : "";
       const to =
         typeof form.get("To") === "string" ? (form.get("To") as string) : "";
+      fromNumber = from;
+      toNumber = to;
+      callSid = (form.get("CallSid") as string | null) || "";
+      digits = (form.get("Digits") as string | null) || "";
       const dirRaw = (form.get("Direction") || form.get("CallDirection") || "") as string;
       const dirLower = dirRaw.toLowerCase();
       if (dirLower.includes("outbound")) direction = "outbound";
       else if (dirLower.includes("inbound")) direction = "inbound";
-      else if (from === "+14082605145") direction = "outbound";
-      else if (to === "+14082605145") direction = "inbound";
+      else if (tenantForNumber(from)) direction = "outbound";
+      else if (tenantForNumber(to)) direction = "inbound";
     } catch {
       answeredBy = null;
     }
@@ -51,6 +116,10 @@ export async function handleTwilioVoiceWebhook(
     // Extract additional timing information from GET params
     machineDetectionDuration = url.searchParams.get("MachineDetectionDuration");
     callStatus = url.searchParams.get("CallStatus");
+    fromNumber = url.searchParams.get("From") || "";
+    toNumber = url.searchParams.get("To") || "";
+    callSid = url.searchParams.get("CallSid") || "";
+    digits = url.searchParams.get("Digits") || "";
     
     const dirParam =
       url.searchParams.get("Direction") ||
@@ -64,15 +133,151 @@ export async function handleTwilioVoiceWebhook(
       : "unknown";
   }
 
+  // The assistant's loopback leg into a conference: our number calling itself.
+  // It keys in the join code it was placed with; the code names the room.
+  if (fromNumber && fromNumber === toNumber && tenantForNumber(toNumber)) {
+    if (!digits) {
+      return new Response(
+        buildTwimlGatherDigits({
+          actionUrl: `${url.origin}/twilio/voice`,
+          numDigits: CONFERENCE_JOIN_CODE_DIGITS,
+          timeoutSec: CONFERENCE_JOIN_CODE_TIMEOUT_SEC,
+        }),
+        { headers: { "Content-Type": "text/xml" } }
+      );
+    }
+    const conference = await takeAssistantJoin(env, toNumber, digits);
+    if (!conference) rackyLog("[conference] loopback leg with unknown code");
+    return new Response(
+      conference
+        ? buildAssistantConferenceTwiml(url.origin, conference)
+        : buildTwimlSayHangup(),
+      { headers: { "Content-Type": "text/xml" } }
+    );
+  }
+
+  // Our number on this call picks the tenant and the line's profile
+  const lineNumber = direction === "outbound" ? fromNumber : toNumber;
+  const tenant = resolveTenant({ number: lineNumber });
+  // The customer's number: who called us, or who we called
+  const callerNumber = direction === "outbound" ? toNumber : fromNumber;
+  // Starting language: ?lang= on the voice URL, else the caller's country
+  const language =
+    normalizeLanguage(url.searchParams.get("lang")) ??
+    languageForNumber(callerNumber);
+  // What we say ourselves before (or instead of) the assistant
+  const messages = messagesFor(language ?? DEFAULT_LANGUAGE);
+  if (callSid) {
+    ctx.waitUntil(
+      updateCallRecord(env, {
+        callSid,
+        from: fromNumber,
+        to: toNumber,
+        direction,
+        tenant: tenant.id,
+        status: callStatus ?? undefined,
+      }).then(() => {})
+    );
+  }
+
+  // Don't connect callers to silence when the assistant can't come up
+  const upstreamDown = !realtimeBackendConfigured(env)
+    ? "missing API key"
+    : (await getUpstreamHealth(env))?.healthy === false
+    ? "recent connect failures"
+    : null;
+  if (upstreamDown) {
+    rackyError(
+      `[twilio-webhook] realtime backend unavailable: ${upstreamDown}`
+    );
+    return new Response(
+      buildUpstreamFallbackTwiml(
+        env,
+        url.origin,
+        tenant,
+        direction,
+        language ?? DEFAULT_LANGUAGE
+      ),
+      { headers: { "Content-Type": "text/xml" } }
+    );
+  }
+
+  // Callers who already used their minutes hear why instead of the assistant
+  if (direction === "inbound") {
+    const quota = await getCallerQuota(env, fromNumber);
+    if (quota?.exhausted) {
+      rackyLog(`[twilio-webhook] ${quota.exhausted} quota used up`, fromNumber);
+      return new Response(
+        buildTwimlSayHangup(
+          quota.exhausted === "daily"
+            ? messages.dailyQuotaUsed
+            : messages.monthlyQuotaUsed,
+          messages.sayLanguage
+        ),
+        { headers: { "Content-Type": "text/xml" } }
+      );
+    }
+  }
+
+  if (IVR_MENU.enabled && direction === "inbound") {
+    console.log(`[twilio-webhook] Playing IVR menu before the AI greeting`);
+    return new Response(
+      buildIvrMenuTwiml(url.origin, direction, messages.sayLanguage),
+      { headers: { "Content-Type": "text/xml" } }
+    );
+  }
+
   const amdValue = answeredBy ?? "unknown";
-  relayUrl += `&direction=${direction}`;
+  // Per-call opt-out for the post-call SMS recap (e.g. /twilio/voice?recap=off)
+  const recapParam = (url.searchParams.get("recap") || "").toLowerCase();
+  // Per-call recording switch (e.g. /twilio/voice?record=on)
+  const recordParam = (url.searchParams.get("record") || "").toLowerCase();
+  // Per-call session settings: the line's profile, then URL overrides, validated
+  const callConfig = resolveCallConfig(
+    {
+      profile: callProfileForNumber(lineNumber),
+      ...callConfigFromQuery(url.searchParams),
+    },
+    { voice: tenant.voice }
+  );
+  const claims: RelayTokenClaims = {
+    call: callConfig,
+    tenant: tenant.id,
+    ...(callerNumber ? { caller: callerNumber } : {}),
+  };
+  // Campaign calls: what the AI should know about this number comes from the
+  // campaign itself, never from the URL
+  const campaignId = url.searchParams.get("campaign");
+  const targetIndex = Number(url.searchParams.get("target") ?? NaN);
+  if (campaignId && Number.isInteger(targetIndex)) {
+    const target = await getCampaignTarget(env, campaignId, targetIndex);
+    if (target?.context && target.number === callerNumber) {
+      claims.context = target.context.slice(0, CAMPAIGN_CONTEXT_MAX_CHARS);
+    }
+  }
+  if (recordParam === "on" || recordParam === "off") {
+    claims.record = recordParam === "on";
+  }
+  const streamParams: Record<string, string> = {
+    amd: amdValue,
+    direction,
+    ...(recapParam === "off" ? { recap: "off" } : {}),
+    ...(claims.record !== undefined ? { record: recordParam } : {}),
+    ...(language ? { lang: language } : {}),
+  };
   // Also include AMD on the WS URL so the bridge can read it immediately
-  relayUrl += `&amd=${encodeURIComponent(amdValue)}`;
+  const relayUrl = await buildRelayStreamUrl(
+    env,
+    url.host,
+    streamParams,
+    claims
+  );
   
   // Enhanced debug logging with timing information
   const webhookProcessTime = Date.now() - webhookStartTime;
   console.log(`[timing] Webhook processed in ${webhookProcessTime}ms`);
   console.log(`[twilio-webhook] AnsweredBy: "${answeredBy}", AMD value: "${amdValue}", Direction: "${direction}"`);
+  console.log(`[twilio-webhook] Tenant: "${tenant.id}", Call config:`, callConfig);
   
   if (machineDetectionDuration) {
     console.log(`[timing] MachineDetectionDuration: ${machineDetectionDuration}ms`);
@@ -81,10 +286,119 @@ export async function handleTwilioVoiceWebhook(
     console.log(`[twilio-webhook] CallStatus: "${callStatus}"`);
   }
   
-  const twiml = buildTwimlConnectStream(relayUrl, { amd: amdValue, direction });
+  const twiml = buildTwimlConnectStream(relayUrl, streamParams);
 
   const totalTime = Date.now() - webhookStartTime;
   console.log(`[timing] Webhook response ready in ${totalTime}ms`);
   
   return new Response(twiml, { headers: { "Content-Type": "text/xml" } });
 }
+
+// AsyncAmdStatusCallback: forwards the AMD result to the live bridge for the call
+export async function handleTwilioAmdCallback(
+  request: Request,
+  env: Env
+): Promise<Response> {
+  let callSid = "";
+  let answeredBy = "";
+  let detectionMs = "";
+  try {
+    const form = await request.formData();
+    callSid = (form.get("CallSid") as string | null) || "";
+    answeredBy = ((form.get("AnsweredBy") as string | null) || "").toLowerCase();
+    detectionMs = (form.get("MachineDetectionDuration") as string | null) || "";
+  } catch {}
+  console.log(
+    `[twilio-amd] CallSid: "${callSid}", AnsweredBy: "${answeredBy}", MachineDetectionDuration: ${detectionMs}ms`
+  );
+  if (callSid && answeredBy) {
+    try {
+      const delivered = await sendCallEvent(env, callSid, {
+        type: "amd",
+        answeredBy,
+      });
+      console.log(`[twilio-amd] delivered to live bridge: ${delivered}`);
+    } catch (e) {
+      rackyError("[twilio-amd] failed to deliver AMD result", e);
+    }
+    await updateCallRecord(env, { callSid, answeredBy });
+  }
+  return new Response("ok", { status: 200 });
+}
+
+// StatusCallback for calls we place (and numbers configured to use it)
+export async function handleTwilioStatusCallback(
+  request: Request,
+  env: Env,
+  ctx: ExecutionContext
+): Promise<Response> {
+  const url = new URL(request.url);
+  let form: FormData;
+  try {
+    form = await request.formData();
+  } catch {
+    return new Response("ok", { status: 200 });
+  }
+  const field = (name: string) => (form.get(name) as string | null) || "";
+  const callSid = field("CallSid");
+  const status = field("CallStatus").toLowerCase();
+  const durationRaw = field("CallDuration");
+  rackyLog("[twilio-status]", { callSid, status, duration: durationRaw });
+  if (!callSid || !status) return new Response("ok", { status: 200 });
+
+  ctx.waitUntil(
+    (async () => {
+      const record = await updateCallRecord(env, {
+        callSid,
+        from: field("From"),
+        to: field("To"),
+        direction: parseTwilioDirection(field("Direction")),
+        status,
+        ...(durationRaw ? { durationSec: Number(durationRaw) } : {}),
+        ...(field("AnsweredBy")
+          ? { answeredBy: field("AnsweredBy").toLowerCase() }
+          : {}),
+        tenant: url.searchParams.get("tenant") ?? undefined,
+        notifyConversationSid: url.searchParams.get("notify") ?? undefined,
+        notifyLanguage:
+          normalizeLanguage(url.searchParams.get("lang")) ?? undefined,
+      });
+      const campaignId = url.searchParams.get("campaign");
+      if (campaignId) {
+        const targetIndex = Number(url.searchParams.get("target") ?? NaN);
+        await reportCampaignCall(env, campaignId, {
+          callSid,
+          target: Number.isInteger(targetIndex) ? targetIndex : null,
+          status,
+          answeredBy:
+            record?.answeredBy ?? (field("AnsweredBy").toLowerCase() || null),
+          durationSec: durationRaw ? Number(durationRaw) : null,
+        });
+      }
+      // A conference participant who never picked up may leave it empty
+      const conference = url.searchParams.get("conference") || "";
+      if (isConferenceName(conference)) {
+        const result = await reportConferenceCallStatus(env, conference, {
+          callSid,
+          status,
+        });
+        if (result?.empty && result.conferenceSid) {
+          rackyLog("[conference] nobody left to join; ending", conference);
+          await endConference(env, result.conferenceSid);
+        }
+      }
+      await followUpCallResult(env, record);
+      // Answered: the bridge sends it when it stores the close reason. If it
+      // never does (e.g. the call went to the fallback line), send anyway
+      if (
+        record?.status === "completed" &&
+        !record.closeReason &&
+        record.notifyConversationSid
+      ) {
+        await new Promise((r) => setTimeout(r, CALL_RESULT_CLOSE_WAIT_MS));
+        await followUpCallResult(env, record, { force: true });
+      }
+    })().catch((e) => rackyError("[twilio-status] failed", e))
+  );
+  return new Response("ok", { status: 200 });
+}
@@ -0,0 +1,211 @@
+import type { Tenant, TenantGreetings } from "../tenants/registry";
+
+export const LANGUAGES = ["en", "es"] as const;
+export type Language = (typeof LANGUAGES)[number];
+export const DEFAULT_LANGUAGE: Language = "en";
+
+// How an @call ended, as texted back to the thread that asked for it
+export type CallOutcome =
+  | "voicemailLeft"
+  | "reachedVoicemail"
+  | "transferred"
+  | "answered"
+  | "busy"
+  | "noAnswer"
+  | "canceled"
+  | "failed";
+
+// What the caller hears or reads from us; prompts to the model stay English
+export type MessageCatalog = {
+  name: string; // for instructions, e.g. "Speak Spanish"
+  sayLanguage: string; // <Say language="..."> for TwiML we speak ourselves
+  // Realtime instructions; empty keeps the persona's own default
+  languageRule: string;
+  // Used for tenants that have no greetings of their own in this language
+  greetings: ((brand: string) => TenantGreetings) | null;
+  transferFailedResume: string;
+  conferenceGreeting: (brand: string) => string;
+  finalTimeLimit: string;
+  timeLimitWarning: string;
+  idleGoodbye: string;
+  upstreamFailure: string;
+  callBackLater: string;
+  // <Say> lines of the TwiML fallbacks: transfer, backup line, quotas
+  transferConnecting: string;
+  transferQueueWait: string;
+  transferNoAnswerResume: string;
+  transferNoAnswerVoicemail: string;
+  voicemailThanks: string;
+  thanksForCalling: (brand: string) => string;
+  assistantUnavailable: string;
+  fallbackDial: string;
+  fallbackVoicemail: string;
+  fallbackOutbound: string;
+  dailyQuotaUsed: string;
+  monthlyQuotaUsed: string;
+  recapOpening: (brand: string) => string;
+  smsCalling: (numbers: string) => string;
+  smsCallFailed: (numbers: string) => string;
+  smsGroupCreated: string;
+  smsGroupFailed: string;
+  smsMaintenance: string;
+  smsVoicemail: (length: string, recordingUrl: string) => string;
+  smsCallResult: (target: string | null, outcome: string) => string;
+  callOutcomes: Record<CallOutcome, string>;
+};
+
+const MESSAGES: Record<Language, MessageCatalog> = {
+  en: {
+    name: "English",
+    sayLanguage: "en-US",
+    languageRule: "",
+    greetings: null,
+    transferFailedResume:
+      "I'm back! Sorry, nobody on the team could grab the phone right now. I can keep helping, or take down your details so someone calls you back.",
+    conferenceGreeting: (brand) =>
+      `Hi everyone, this is the ${brand} A.I. assistant. I'll stay quiet and listen. Just say "hey assistant" if you need me, or ask me for a summary.`,
+    finalTimeLimit:
+      "Call time limit reached, please call again to continue chatting. Good bye.",
+    timeLimitWarning: "We have about a minute left on this call.",
+    idleGoodbye:
+      "I haven't heard anything for a while, so I'll hang up now. Feel free to call back anytime. Good bye.",
+    upstreamFailure: "Sorry, we're having technical trouble on our end.",
+    callBackLater: "Please call back in a few minutes. Goodbye.",
+    transferConnecting: "Connecting you to our team now, please hold.",
+    transferQueueWait: "Thanks for holding, someone will be right with you.",
+    transferNoAnswerResume:
+      "Sorry, nobody on our team could pick up right now. Let me bring the assistant back.",
+    transferNoAnswerVoicemail:
+      "Sorry, nobody on our team could pick up right now. Please leave a message after the tone.",
+    voicemailThanks: "Thanks, we'll get back to you soon. Good bye.",
+    thanksForCalling: (brand) => `Thanks for calling ${brand}.`,
+    assistantUnavailable: "Sorry, our assistant is unavailable right now.",
+    fallbackDial: "Let me connect you with our team.",
+    fallbackVoicemail:
+      "Please leave a message after the tone and we'll text you back.",
+    fallbackOutbound: "We'll try you again later. Good bye.",
+    dailyQuotaUsed:
+      "Thanks for calling. You've used today's talk time with our assistant, so please call again tomorrow. You can also text us at this number. Good bye.",
+    monthlyQuotaUsed:
+      "Thanks for calling. You've used this month's talk time with our assistant. You can still text us at this number. Good bye.",
+    recapOpening: (brand) => `Thanks for chatting with ${brand}!`,
+    smsCalling: (numbers) => `Calling ${numbers} now!`,
+    smsCallFailed: (numbers) => `Sorry, I couldn't call ${numbers}`,
+    smsGroupCreated:
+      "I created a new group and sent an intro message. You should see it as a new thread.",
+    smsGroupFailed: "Sorry, I couldn't create the group.",
+    smsMaintenance: "Sorry, I'm currently under maintenance...",
+    smsVoicemail: (length, recordingUrl) =>
+      `Thanks for your voicemail${length}, we'll get back to you here soon. Recording: ${recordingUrl}`,
+    smsCallResult: (target, outcome) =>
+      `Call to ${target ?? "the number"}: ${outcome}.`,
+    callOutcomes: {
+      voicemailLeft: "left a voicemail",
+      reachedVoicemail: "reached voicemail",
+      transferred: "answered and transferred to the team",
+      answered: "answered",
+      busy: "the line was busy",
+      noAnswer: "no answer",
+      canceled: "the call was canceled",
+      failed: "the call failed",
+    },
+  },
+  es: {
+    name: "Spanish",
+    sayLanguage: "es-MX",
+    languageRule:
+      "Language (CRITICAL): The caller speaks Spanish. Speak Spanish for the whole call unless they switch to English.",
+    greetings: (brand) => {
+      const intro = `Hola, le habla el asistente de inteligencia artificial de ${brand}.`;
+      return {
+        inbound: `${intro} ¡Gracias por llamar! ¿En qué le puedo ayudar hoy?`,
+        outbound: `${intro} Le llamo para ver si hay algo en lo que le pueda ayudar.`,
+        fallback: `${intro} ¿En qué le puedo ayudar?`,
+        voicemail: `${intro} ¡Siento no haberle encontrado! Si tiene alguna pregunta, devuélvame la llamada o envíeme un mensaje de texto y le ayudo enseguida.`,
+        group: `Hola, soy el asistente de IA de ${brand}. Con gusto les ayudo aquí. Mencionen @ai cuando quieran que participe.`,
+      };
+    },
+    transferFailedResume:
+      "¡Ya estoy de vuelta! Lo siento, nadie del equipo pudo contestar ahora mismo. Puedo seguir ayudándole, o tomar sus datos para que alguien le devuelva la llamada.",
+    conferenceGreeting: (brand) =>
+      `Hola a todos, les habla el asistente de inteligencia artificial de ${brand}. Voy a escuchar en silencio. Digan "oye asistente" si me necesitan, o pídanme un resumen.`,
+    finalTimeLimit:
+      "Hemos llegado al límite de tiempo de la llamada. Llámenos de nuevo para seguir conversando. ¡Adiós!",
+    timeLimitWarning: "Nos queda más o menos un minuto de llamada.",
+    idleGoodbye:
+      "No le he escuchado en un buen rato, así que voy a colgar. Llámenos cuando quiera. ¡Adiós!",
+    upstreamFailure:
+      "Lo sentimos, estamos teniendo problemas técnicos de nuestro lado.",
+    callBackLater: "Por favor, vuelva a llamar en unos minutos. ¡Adiós!",
+    transferConnecting:
+      "Le comunico ahora con nuestro equipo, por favor espere.",
+    transferQueueWait: "Gracias por esperar, enseguida le atiende alguien.",
+    transferNoAnswerResume:
+      "Lo sentimos, nadie de nuestro equipo pudo contestar ahora mismo. Le comunico de nuevo con el asistente.",
+    transferNoAnswerVoicemail:
+      "Lo sentimos, nadie de nuestro equipo pudo contestar ahora mismo. Por favor, deje un mensaje después del tono.",
+    voicemailThanks: "Gracias, le responderemos pronto. ¡Adiós!",
+    thanksForCalling: (brand) => `Gracias por llamar a ${brand}.`,
+    assistantUnavailable:
+      "Lo sentimos, nuestro asistente no está disponible en este momento.",
+    fallbackDial: "Le comunico con nuestro equipo.",
+    fallbackVoicemail:
+      "Por favor, deje un mensaje después del tono y le responderemos con un mensaje de texto.",
+    fallbackOutbound: "Le volveremos a llamar más tarde. ¡Adiós!",
+    dailyQuotaUsed:
+      "Gracias por llamar. Ya usó el tiempo de conversación de hoy con nuestro asistente, así que por favor llame de nuevo mañana. También puede enviarnos un mensaje de texto a este número. ¡Adiós!",
+    monthlyQuotaUsed:
+      "Gracias por llamar. Ya usó el tiempo de conversación de este mes con nuestro asistente. Todavía puede enviarnos un mensaje de texto a este número. ¡Adiós!",
+    recapOpening: (brand) => `¡Gracias por hablar con ${brand}!`,
+    smsCalling: (numbers) => `¡Llamando a ${numbers} ahora!`,
+    smsCallFailed: (numbers) => `Lo siento, no pude llamar a ${numbers}`,
+    smsGroupCreated:
+      "Creé un grupo nuevo y envié un mensaje de presentación. Debería verlo como una conversación nueva.",
+    smsGroupFailed: "Lo siento, no pude crear el grupo.",
+    smsMaintenance: "Lo siento, estoy en mantenimiento en este momento...",
+    smsVoicemail: (length, recordingUrl) =>
+      `Gracias por su mensaje de voz${length}, le responderemos por aquí pronto. Grabación: ${recordingUrl}`,
+    smsCallResult: (target, outcome) =>
+      `Llamada a ${target ?? "el número"}: ${outcome}.`,
+    callOutcomes: {
+      voicemailLeft: "se dejó un mensaje de voz",
+      reachedVoicemail: "contestó el buzón de voz",
+      transferred: "contestó y se transfirió al equipo",
+      answered: "contestó",
+      busy: "la línea estaba ocupada",
+      noAnswer: "no contestó",
+      canceled: "se canceló la llamada",
+      failed: "la llamada falló",
+    },
+  },
+};
+
+// Accepts "es", "ES", "es-MX"; null for anything we don't speak
+export function normalizeLanguage(
+  raw: string | null | undefined
+): Language | null {
+  const code = (raw || "").trim().toLowerCase().slice(0, 2);
+  return (LANGUAGES as ReadonlyArray<string>).includes(code)
+    ? (code as Language)
+    : null;
+}
+
+export function messagesFor(language: Language): MessageCatalog {
+  return MESSAGES[language];
+}
+
+/**
+ * The tenant's own greetings in this language if it has them, otherwise the
+ * catalog's generic ones with its brand, otherwise its English greetings.
+ */
+export function tenantGreetings(
+  tenant: Tenant,
+  language: Language
+): TenantGreetings {
+  if (language === DEFAULT_LANGUAGE) return tenant.greetings;
+  return (
+    tenant.localizedGreetings?.[language] ??
+    MESSAGES[language].greetings?.(tenant.brand) ??
+    tenant.greetings
+  );
+}
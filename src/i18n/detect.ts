@@ -0,0 +1,67 @@
+import type { Language } from "./catalog";
+
+// Country calling codes where we start in Spanish; +1 stays English
+const SPANISH_CALLING_CODES = [
+  "34", // Spain
+  "52", // Mexico
+  "53", // Cuba
+  "54", // Argentina
+  "56", // Chile
+  "57", // Colombia
+  "58", // Venezuela
+  "51", // Peru
+  "240", // Equatorial Guinea
+  "502", // Guatemala
+  "503", // El Salvador
+  "504", // Honduras
+  "505", // Nicaragua
+  "506", // Costa Rica
+  "507", // Panama
+  "591", // Bolivia
+  "593", // Ecuador
+  "595", // Paraguay
+  "598", // Uruguay
+];
+
+export function languageForNumber(
+  e164: string | null | undefined
+): Language | null {
+  if (!e164?.startsWith("+")) return null;
+  const digits = e164.slice(1);
+  return SPANISH_CALLING_CODES.some((code) => digits.startsWith(code))
+    ? "es"
+    : null;
+}
+
+const MARKERS: Record<Language, ReadonlySet<string>> = {
+  en: new Set(
+    "the and you i is are to of what how can my it this that yes hello hi please thanks thank need want have do for with gate".split(
+      " "
+    )
+  ),
+  es: new Set(
+    "el la los las y usted yo es son de que qué como cómo puede mi esto eso sí hola por favor gracias necesito quiero tengo para con una un puerta buenos buenas días tardes cuánto cuanto precio".split(
+      " "
+    )
+  ),
+};
+
+/**
+ * Rough guess from a short utterance or text message: null unless one
+ * language clearly wins, so "OK" or a bare number never flips a call.
+ */
+export function detectLanguage(text: string): Language | null {
+  const words = text
+    .toLowerCase()
+    .split(/[^\p{L}]+/u)
+    .filter(Boolean);
+  const scores: Record<Language, number> = { en: 0, es: 0 };
+  for (const word of words) {
+    if (MARKERS.en.has(word)) scores.en++;
+    if (MARKERS.es.has(word)) scores.es++;
+  }
+  if (/[ñ¿¡áéíóú]/i.test(text)) scores.es++;
+  if (scores.es >= 2 && scores.es > scores.en) return "es";
+  if (scores.en >= 2 && scores.en > scores.es) return "en";
+  return null;
+}
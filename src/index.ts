@@ -2,10 +2,27 @@ import type { Env } from "./config/env";
 import { isAllowedOrigin, RL_HTTP_CAPACITY, RL_HTTP_INTERVAL_MS, RL_WS_CAPACITY, RL_WS_INTERVAL_MS } from "./config/config";
 import { getClientIp } from "./utils/ip";
 import { rateLimitConsume, RateLimitBucket } from "./utils/rateLimiter";
-import { handleTwilioVoiceWebhook } from "./http/twilio";
+import { CallerQuota } from "./utils/callerQuota";
+import { handleTwilioAmdCallback, handleTwilioStatusCallback, handleTwilioVoiceWebhook } from "./http/twilio";
 import { handleTwilioConversationsWebhook } from "./http/conversations";
+import { handleActiveCallsRequest, handleCallListRequest, handleCallTranscriptRequest, handleSupervisorSocket } from "./http/calls";
+import { handleCampaignCreate, handleCampaignRequest } from "./http/campaigns";
+import { handleConferenceCreate, handleConferenceEvents, handleConferenceRequest, handleConferenceStream } from "./http/conferences";
+import { handleFallbackDialResult, handleFallbackVoicemail } from "./http/fallback";
+import { handleIvrMenuSelection } from "./http/menu";
+import { handleLatencyMetricsRequest } from "./http/metrics";
+import { handleTransferResult, handleTransferVoicemail, handleTransferWait } from "./http/transfer";
+import { validateTwilioSignature } from "./twilio/signature";
 import { createRealtimeClient } from "./realtime/client";
 import { createTwilioRealtimeBridge } from "./realtime/twilioBridge";
+import { CallTranscript } from "./transcripts/store";
+import { CallSession } from "./calls/callSession";
+import { CallDirectory } from "./calls/directory";
+import { CallLog } from "./calls/records";
+import { Campaign } from "./campaigns/campaign";
+import { ConferenceRoom } from "./conferences/conference";
+import { UpstreamHealth } from "./realtime/health";
+import { LatencyMetrics } from "./metrics/latency";
 
 export default {
   async fetch(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
@@ -19,6 +36,7 @@ export default {
       const hasTwilioSig = request.headers.has("x-twilio-signature");
       const looksLikeTwilio = mode === "twilio" || hasTwilioSig || userAgent.includes("Twilio.TmeWs");
       if (looksLikeTwilio) return createTwilioRealtimeBridge(request, env, ctx);
+      if (url.pathname.startsWith("/calls/")) return handleSupervisorSocket(request, env);
 
       const origin = request.headers.get("Origin");
       if (!isAllowedOrigin(origin)) return new Response("Unauthorized origin", { status: 403 });
@@ -32,8 +50,23 @@ export default {
     }
 
     const pathname = url.pathname.endsWith('/') ? url.pathname.slice(0, -1) : url.pathname;
+    // Every Twilio webhook must be signed with our auth token
+    if (pathname.startsWith("/twilio/") && !(await validateTwilioSignature(request, env))) {
+      console.log('[http] rejected unsigned Twilio webhook', { path: url.pathname });
+      return new Response("Forbidden", { status: 403 });
+    }
     if (pathname === "/twilio/convo" && request.method === "POST") return handleTwilioConversationsWebhook(request, env, ctx);
-    if (pathname === "/twilio/voice" && (request.method === "POST" || request.method === "GET")) return handleTwilioVoiceWebhook(request, env);
+    if (pathname === "/twilio/voice" && (request.method === "POST" || request.method === "GET")) return handleTwilioVoiceWebhook(request, env, ctx);
+    if (pathname === "/twilio/amd" && request.method === "POST") return handleTwilioAmdCallback(request, env);
+    if (pathname === "/twilio/status" && request.method === "POST") return handleTwilioStatusCallback(request, env, ctx);
+    if (pathname === "/twilio/menu" && request.method === "POST") return handleIvrMenuSelection(request, env);
+    if (pathname === "/twilio/transfer" && request.method === "POST") return handleTransferResult(request, env);
+    if (pathname === "/twilio/transfer/wait" && request.method === "POST") return handleTransferWait(request);
+    if (pathname === "/twilio/transfer/voicemail" && request.method === "POST") return handleTransferVoicemail(request);
+    if (pathname === "/twilio/fallback/dial" && request.method === "POST") return handleFallbackDialResult(request);
+    if (pathname === "/twilio/fallback/voicemail" && request.method === "POST") return handleFallbackVoicemail(request, env, ctx);
+    if (pathname === "/twilio/conference/stream" && (request.method === "POST" || request.method === "GET")) return handleConferenceStream(request, env);
+    if (pathname === "/twilio/conference/events" && request.method === "POST") return handleConferenceEvents(request, env, ctx);
 
     const httpRl = await rateLimitConsume(env, `http:${clientIp}`, RL_HTTP_CAPACITY, RL_HTTP_INTERVAL_MS);
     if (!httpRl.allowed) {
@@ -47,12 +80,36 @@ export default {
     }
 
     const parts = url.pathname.split('/').filter(Boolean);
+    if (parts.length === 1 && parts[0] === 'calls' && request.method === 'GET') {
+      return handleCallListRequest(request, env);
+    }
+    if (parts.length === 2 && parts[0] === 'calls' && parts[1] === 'active' && request.method === 'GET') {
+      return handleActiveCallsRequest(request, env);
+    }
+    if (parts.length === 3 && parts[0] === 'calls' && parts[2] === 'transcript' && request.method === 'GET') {
+      return handleCallTranscriptRequest(request, env, parts[1]);
+    }
+    if (parts.length === 1 && parts[0] === 'campaigns' && request.method === 'POST') {
+      return handleCampaignCreate(request, env);
+    }
+    if ((parts.length === 2 || parts.length === 3) && parts[0] === 'campaigns') {
+      return handleCampaignRequest(request, env, parts[1], parts[2]);
+    }
+    if (parts.length === 1 && parts[0] === 'conferences' && request.method === 'POST') {
+      return handleConferenceCreate(request, env);
+    }
+    if (parts.length === 2 && parts[0] === 'conferences') {
+      return handleConferenceRequest(request, env, parts[1]);
+    }
+    if (parts.length === 2 && parts[0] === 'metrics' && parts[1] === 'latency' && request.method === 'GET') {
+      return handleLatencyMetricsRequest(request, env);
+    }
     if (parts.length >= 2 && (parts[0] === 'token' || parts[0] === 'auth')) return new Response('OK', { status: 200 });
     return new Response("Expected Upgrade: websocket", { status: 426 });
   },
 };
 
-// Re-export the Durable Object class for Wrangler to bind
-export { RateLimitBucket };
+// Re-export the Durable Object classes for Wrangler to bind
+export { RateLimitBucket, CallTranscript, CallSession, CallDirectory, CallLog, Campaign, UpstreamHealth, CallerQuota, ConferenceRoom, LatencyMetrics };
 
 
@@ -0,0 +1,269 @@
+import {
+  LATENCY_BUCKETS_MS,
+  LATENCY_METRICS_ENABLED,
+  LATENCY_RETENTION_DAYS,
+} from "../config/config";
+import { rackyError, rackyLog } from "../utils/log";
+
+export const LATENCY_METRICS = [
+  "webhook_to_ws", // TwiML issued (relay token) -> media stream socket opened
+  "ws_to_upstream", // socket opened -> realtime backend connected
+  "start_to_greeting_audio", // Twilio start event -> first greeting audio
+  "turn_response", // speech_stopped -> first response.audio.delta
+  "barge_in_clear", // caller speech began -> clear sent to Twilio
+] as const;
+export type LatencyMetric = (typeof LATENCY_METRICS)[number];
+
+export type LatencyTags = { direction: string; voice: string };
+
+export type LatencySample = LatencyTags & { metric: LatencyMetric; ms: number };
+
+type StoredHistogram = {
+  counts: number[]; // one per LATENCY_BUCKETS_MS bound, then overflow
+  count: number;
+  sumMs: number;
+  maxMs: number;
+};
+
+export type LatencyHistogram = LatencyTags & {
+  metric: LatencyMetric;
+  count: number;
+  meanMs: number;
+  p50Ms: number | null;
+  p95Ms: number | null;
+  p99Ms: number | null;
+  maxMs: number;
+  buckets: { le: number | null; count: number }[]; // le null = overflow
+};
+
+const HIST_PREFIX = "hist:";
+const PRUNED_KEY = "pruned-day";
+const METRICS_NAME = "latency";
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+function dayOf(time: number): string {
+  return new Date(time).toISOString().slice(0, 10);
+}
+
+function histogramKey(day: string, s: LatencySample): string {
+  return `${HIST_PREFIX}${day}|${s.metric}|${s.direction}|${s.voice}`;
+}
+
+export function bucketIndex(ms: number): number {
+  const i = LATENCY_BUCKETS_MS.findIndex((bound) => ms <= bound);
+  return i === -1 ? LATENCY_BUCKETS_MS.length : i;
+}
+
+// Upper bound of the bucket holding the q-th sample; null for overflow
+export function histogramPercentile(
+  counts: ReadonlyArray<number>,
+  q: number
+): number | null {
+  const total = counts.reduce((a, b) => a + b, 0);
+  if (!total) return null;
+  const rank = Math.ceil(q * total);
+  let seen = 0;
+  for (let i = 0; i < counts.length; i++) {
+    seen += counts[i];
+    if (seen >= rank) return LATENCY_BUCKETS_MS[i] ?? null;
+  }
+  return null;
+}
+
+function isMetric(value: unknown): value is LatencyMetric {
+  return (LATENCY_METRICS as ReadonlyArray<unknown>).includes(value);
+}
+
+// Durable Object implementation, a single instance for the whole deployment
+export class LatencyMetrics {
+  private readonly state: DurableObjectState;
+
+  constructor(state: DurableObjectState, _env: unknown) {
+    this.state = state;
+  }
+
+  async fetch(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+    if (url.pathname === "/record" && request.method === "POST") {
+      let samples: LatencySample[] = [];
+      try {
+        const body = (await request.json()) as { samples?: LatencySample[] };
+        samples = Array.isArray(body.samples) ? body.samples : [];
+      } catch {
+        return json({ error: "Bad Request" }, 400);
+      }
+      await this.record(samples);
+      return json({ ok: true });
+    }
+    if (url.pathname === "/histograms" && request.method === "GET") {
+      return json({
+        buckets: LATENCY_BUCKETS_MS,
+        histograms: await this.histograms(url.searchParams),
+      });
+    }
+    return json({ error: "Not Found" }, 404);
+  }
+
+  private async record(samples: LatencySample[]): Promise<void> {
+    const now = Date.now();
+    const day = dayOf(now);
+    const updates = new Map<string, StoredHistogram>();
+    for (const s of samples) {
+      if (!isMetric(s?.metric) || !Number.isFinite(s.ms) || s.ms < 0) continue;
+      const key = histogramKey(day, s);
+      const hist = updates.get(key) ??
+        (await this.state.storage.get<StoredHistogram>(key)) ?? {
+          counts: new Array(LATENCY_BUCKETS_MS.length + 1).fill(0),
+          count: 0,
+          sumMs: 0,
+          maxMs: 0,
+        };
+      hist.counts[bucketIndex(s.ms)]++;
+      hist.count++;
+      hist.sumMs += s.ms;
+      hist.maxMs = Math.max(hist.maxMs, s.ms);
+      updates.set(key, hist);
+    }
+    if (updates.size) await this.state.storage.put(Object.fromEntries(updates));
+    if ((await this.state.storage.get<string>(PRUNED_KEY)) !== day) {
+      await this.prune(now);
+      await this.state.storage.put(PRUNED_KEY, day);
+    }
+  }
+
+  private async prune(now: number): Promise<void> {
+    const oldest = dayOf(now - (LATENCY_RETENTION_DAYS - 1) * 86_400_000);
+    const stored = await this.state.storage.list({ prefix: HIST_PREFIX });
+    const expired = [...stored.keys()].filter(
+      (key) => key.slice(HIST_PREFIX.length).split("|")[0] < oldest
+    );
+    if (expired.length) await this.state.storage.delete(expired);
+  }
+
+  // Per-day histograms merged over the last `days`, one per metric and tags
+  private async histograms(
+    query: URLSearchParams
+  ): Promise<LatencyHistogram[]> {
+    const days = Math.min(
+      LATENCY_RETENTION_DAYS,
+      Math.max(1, Number(query.get("days")) || 1)
+    );
+    const oldest = dayOf(Date.now() - (days - 1) * 86_400_000);
+    const stored = await this.state.storage.list<StoredHistogram>({
+      prefix: HIST_PREFIX,
+    });
+    const merged = new Map<string, LatencyHistogram & { sumMs: number }>();
+    for (const [key, hist] of stored) {
+      const [day, metric, direction, voice] = key
+        .slice(HIST_PREFIX.length)
+        .split("|");
+      if (day < oldest || !isMetric(metric)) continue;
+      if (query.get("metric") && query.get("metric") !== metric) continue;
+      if (query.get("direction") && query.get("direction") !== direction) {
+        continue;
+      }
+      if (query.get("voice") && query.get("voice") !== voice) continue;
+      const id = `${metric}|${direction}|${voice}`;
+      const out = merged.get(id) ?? {
+        metric,
+        direction,
+        voice,
+        count: 0,
+        sumMs: 0,
+        meanMs: 0,
+        p50Ms: null,
+        p95Ms: null,
+        p99Ms: null,
+        maxMs: 0,
+        buckets: [...LATENCY_BUCKETS_MS, null].map((le) => ({ le, count: 0 })),
+      };
+      hist.counts.forEach((n, i) => (out.buckets[i].count += n));
+      out.count += hist.count;
+      out.sumMs += hist.sumMs;
+      out.maxMs = Math.max(out.maxMs, hist.maxMs);
+      merged.set(id, out);
+    }
+    return [...merged.values()].map(({ sumMs, ...h }) => {
+      const counts = h.buckets.map((b) => b.count);
+      return {
+        ...h,
+        meanMs: h.count ? Math.round(sumMs / h.count) : 0,
+        p50Ms: histogramPercentile(counts, 0.5),
+        p95Ms: histogramPercentile(counts, 0.95),
+        p99Ms: histogramPercentile(counts, 0.99),
+      };
+    });
+  }
+}
+
+type LatencyEnv = {
+  LATENCY_METRICS?: DurableObjectNamespace;
+  LATENCY_ANALYTICS?: AnalyticsEngineDataset;
+};
+
+// Relays a request to the metrics Durable Object; null without the binding
+export async function latencyMetricsRequest(
+  env: LatencyEnv,
+  path: string,
+  init?: RequestInit
+): Promise<Response | null> {
+  const ns = env.LATENCY_METRICS;
+  if (!ns) return null;
+  return ns.get(ns.idFromName(METRICS_NAME)).fetch(`https://do${path}`, init);
+}
+
+/**
+ * Per-call latency samples. The bridge records as the call goes and flushes
+ * once when it closes: one structured log line, a data point per sample
+ * for Analytics Engine (if bound) and the histogram update.
+ */
+export function createLatencyTracker() {
+  const samples: { metric: LatencyMetric; ms: number }[] = [];
+  let flushed = false;
+
+  return {
+    record(metric: LatencyMetric, ms: number): void {
+      if (!LATENCY_METRICS_ENABLED || flushed) return;
+      if (!Number.isFinite(ms) || ms < 0) return;
+      samples.push({ metric, ms: Math.round(ms) });
+    },
+    async flush(
+      env: LatencyEnv,
+      call: LatencyTags & { callSid: string | null }
+    ): Promise<void> {
+      if (flushed || !samples.length) return;
+      flushed = true;
+      const { callSid, direction, voice } = call;
+      rackyLog("[latency]", { callSid, direction, voice, samples });
+      try {
+        for (const s of samples) {
+          env.LATENCY_ANALYTICS?.writeDataPoint({
+            indexes: [s.metric],
+            blobs: [s.metric, direction, voice, callSid ?? ""],
+            doubles: [s.ms],
+          });
+        }
+      } catch (e) {
+        rackyError("[latency] analytics write failed", e);
+      }
+      try {
+        await latencyMetricsRequest(env, "/record", {
+          method: "POST",
+          body: JSON.stringify({
+            samples: samples.map((s) => ({ ...s, direction, voice })),
+          }),
+        });
+      } catch (e) {
+        rackyError("[latency] histogram update failed", e);
+      }
+    },
+  };
+}
+
+export type LatencyTracker = ReturnType<typeof createLatencyTracker>;
@@ -5,7 +5,8 @@ import { rackyError, rackyLog } from "../utils/log";
 export async function generateTextDirect(
   env: Env,
   messages: UiMessage[],
-  systemPrompt: string
+  systemPrompt: string,
+  options?: { throwOnError?: boolean }
 ): Promise<string> {
   try {
     const openaiMessages = messages.map((msg) => ({
@@ -50,6 +51,7 @@ export async function generateTextDirect(
     );
   } catch (error) {
     rackyError("Direct text generation failed:", error);
+    if (options?.throwOnError) throw error;
     return "Sorry, I'm currently under maintenance.";
   }
 }
@@ -1,69 +1,100 @@
+import {
+  DEFAULT_LANGUAGE,
+  Language,
+  messagesFor,
+  tenantGreetings,
+} from "../i18n/catalog";
+import type { Tenant } from "../tenants/registry";
 import { rackyLog } from "../utils/log";
 
-export const BRAND = "GateFrames.com";
-
-const GREETING = `Hello, this is the ${BRAND} A.I. assistant.`;
+// Sent when the bridge realizes mid-call that it reached an answering machine
+export function buildVoicemailScriptInstruction(
+  tenant: Tenant,
+  language: Language = DEFAULT_LANGUAGE
+): string {
+  return `SYSTEM: You reached an answering machine and the recording has started. Do not greet again and do not ask questions. Speak the following EXACTLY, then stop: "${tenantGreetings(tenant, language).voicemail}"`;
+}
 
 export function buildInitialCallGreeting(options: {
+  tenant: Tenant;
   voicemailMode: boolean;
   callDirection: "inbound" | "outbound" | "unknown";
+  resumeReason?: "transfer_failed" | null;
+  language?: Language;
+  conference?: boolean;
 }): string {
+  const language = options.language ?? DEFAULT_LANGUAGE;
+  const greetings = tenantGreetings(options.tenant, language);
   let result = "";
+  if (options.resumeReason === "transfer_failed") {
+    result = `The caller was just put through to our team but nobody picked up. Say "${messagesFor(language).transferFailedResume}" Then continue helping.`;
+    rackyLog(`[buildInitialCallGreeting] ${result}`);
+    return result;
+  }
+  if (options.conference) {
+    result = `Greet everyone on the conference call with "${messagesFor(
+      language
+    ).conferenceGreeting(options.tenant.brand)}"`;
+    rackyLog(`[buildInitialCallGreeting] ${result}`);
+    return result;
+  }
   // if (options.voicemailMode) {
   //   result = `SYSTEM: You are leaving a voicemail. Do not greet. Do not ask questions. Speak the following EXACTLY:
   //    "${greeting} Sorry I missed you! If you have any questions about our gates, openers, installations, or anything else, just call back or shoot me a text and I'll help right away."`;
   // } else
   if (options.callDirection === "inbound") {
-    result = `Greet the user with "${GREETING} Thanks for calling! How can I help you today?"`;
+    result = `Greet the user with "${greetings.inbound}"`;
   } else if (options.callDirection === "outbound") {
-    result = `Greet the user with "${GREETING} I'm reaching out to chat as a friend and see if you might have any driveway gate related questions."`;
+    result = `Greet the user with "${greetings.outbound}"`;
   } else {
-    result = `Greet the user with "${GREETING} How can I help?"`;
+    result = `Greet the user with "${greetings.fallback}"`;
   }
   rackyLog(`[buildInitialCallGreeting] ${result}`);
   return result;
 }
 
-export function groupGreetingPrompt(): string {
-  return `Hello, this is the GateFrames.com AI assistant. Happy to help here. Mention @ai when you want me to jump in.`;
+export function groupGreetingPrompt(tenant: Tenant): string {
+  return tenant.greetings.group;
 }
 
-export function chatPrompt(currentIsoTimestamp: string): string {
-  return `Voice: Be conversational, warm, and relaxed - like talking to a knowledgeable friend who happens to know a lot about gates.
-    
-    Role: You're a expert on driveway gates and home improvement who works with "${BRAND}".
-    
-    Objective: Have a natural conversation to understand what the customer needs, share helpful info, and guide them to the right "${BRAND}" solution when appropriate.
-    
-    Conversational Scope: 
-    - You can chat about general topics like weather, how their day is going, home projects, etc.
-    - When ANY business, product, or purchase-related topic comes up, it MUST relate to "${BRAND}" products only
-    - If they ask about non-GateFrames products/services, be friendly but honest: "I'd love to help, but I'm specifically here for gate-related stuff. Speaking of which..."
-    
-    Knowledge: ${BRAND} started with a simple idea - make high-quality custom gates and fences, deliver them free across America, and provide DIY guides that actually make sense.
-    
-    Guidelines:
-    - Start casual, find out what brought them here
-    - Listen for cues about their actual needs (security? curb appeal? privacy? convenience?)
-    - Ask natural follow-ups: "Is this for a new place or upgrading?" "Got any style in mind?" "How wide we talking?"
-    - Share knowledge conversationally: "Oh yeah, if you've got a slope, sliding gates work great for that"
-    - Be genuinely helpful, not pushy
-    - Match their energy - if they're all business, get to it; if they're chatty, chat back
-    
+export function chatPrompt(tenant: Tenant, currentIsoTimestamp: string): string {
+  return `${tenant.persona}
+
     The current date is ${currentIsoTimestamp}.`;
 }
 
+export function callRecapPrompt(
+  tenant: Tenant,
+  language: Language = DEFAULT_LANGUAGE
+): string {
+  const messages = messagesFor(language);
+  return `You write the follow-up text message sent to a customer right after a phone call with the ${tenant.brand} A.I. assistant.
+
+  Writing:
+  - Write in ${messages.name}
+  - Start with "${messages.recapOpening(tenant.brand)}"
+  - Summarize what was discussed in 1-3 short sentences (sizes, styles, prices, dates mentioned)
+  - Then list clear next steps, if any
+  - End by inviting them to reply to this text with any questions
+  - Plain text, at most one emoji, well under 600 characters
+  - Never invent details that are not in the transcript`;
+}
+
 export function textConcatPrompt(basePrompt: string): string {
   return `Writing: Use emojis sparingly to enhance clarity and emotion 🙂. This is MMS text conversation, so keep it short and concise, significantly less than the 1600 character limit.
   
   ${basePrompt}`;
 }
 
-export function realtimeConcatPrompt(basePrompt: string): string {
+export function realtimeConcatPrompt(
+  tenant: Tenant,
+  basePrompt: string,
+  language: Language = DEFAULT_LANGUAGE
+): string {
   return `Speed (CRITICAL): Speak fast!
  
   Voicemail Rule (CRITICAL): Voicemails are super brief Speak the following EXACTLY:
-  "Hello, this is the ${BRAND} A.I. assistant. Sorry I missed you! If you have any questions about our gates, openers, installations, or anything else, just call me back or shoot me a text and I'll help you right away."
+  "${tenantGreetings(tenant, language).voicemail}"
      
   ${basePrompt}`;
 }
@@ -0,0 +1,50 @@
+import { OPENAI_URL } from "../config/config";
+import type { Env } from "../config/env";
+import { createMockRealtimeBackend } from "./mockBackend";
+import { createOpenAIRealtimeBackend } from "./openaiBackend";
+
+// Realtime wire events, in the OpenAI beta shape both directions
+export type RealtimeClientEvent = { type: string; [key: string]: unknown };
+export type RealtimeServerEvent = { type: string; [key: string]: unknown };
+
+/**
+ * What the bridges need from a speech-to-speech provider: a session that
+ * takes client events and streams server events back until it closes.
+ * Handlers return an unsubscribe function.
+ */
+export type RealtimeBackend = {
+  readonly name: string;
+  connect(options: { model: string }): Promise<void>;
+  isConnected(): boolean;
+  send(event: RealtimeClientEvent): void;
+  onServerEvent(handler: (event: RealtimeServerEvent) => void): () => void;
+  onClose(handler: (info: { error: boolean }) => void): () => void;
+  close(): void;
+};
+
+function backendName(env: Env): "openai" | "mock" {
+  return (env.REALTIME_BACKEND || "").toLowerCase() === "mock"
+    ? "mock"
+    : "openai";
+}
+
+// False when the selected provider is missing its credentials
+export function realtimeBackendConfigured(env: Env): boolean {
+  return backendName(env) === "mock" || !!env.OPENAI_API_KEY;
+}
+
+/**
+ * One backend per session; REALTIME_BACKEND=mock swaps in the scripted mock
+ * so the bridges can run without an OpenAI key.
+ */
+export function createRealtimeBackend(
+  env: Env,
+  options: { debug?: boolean } = {}
+): RealtimeBackend {
+  if (backendName(env) === "mock") return createMockRealtimeBackend();
+  return createOpenAIRealtimeBackend({
+    apiKey: env.OPENAI_API_KEY,
+    url: OPENAI_URL,
+    debug: options.debug ?? false,
+  });
+}
@@ -1,13 +1,22 @@
-import { RealtimeClient } from "@openai/realtime-api-beta";
 import {
-  FINAL_TIME_LIMIT_MESSAGE,
   MODEL,
-  OPENAI_URL,
   TIME_LIMIT_MS,
 } from "../config/config";
 import type { Env } from "../config/env";
-import { getAuthToken, validateAuth } from "../utils/auth";
+import {
+  DEFAULT_LANGUAGE,
+  messagesFor,
+  normalizeLanguage,
+} from "../i18n/catalog";
+import { chatPrompt } from "../prompts/chat";
+import { resolveTenant } from "../tenants/registry";
+import { getAuthToken, readAuthPayload } from "../utils/auth";
 import { rackyError, rackyLog } from "../utils/log";
+import {
+  createRealtimeBackend,
+  RealtimeBackend,
+  realtimeBackendConfigured,
+} from "./backend";
 
 export async function createRealtimeClient(
   request: Request,
@@ -23,8 +32,7 @@ export async function createRealtimeClient(
     }
   }
 
-  const apiKey = env.OPENAI_API_KEY;
-  if (!apiKey) {
+  if (!realtimeBackendConfigured(env)) {
     rackyError(
       "Missing OpenAI API key. Did you forget to set OPENAI_API_KEY in .dev.vars (for local dev) or with wrangler secret put OPENAI_API_KEY (for production)?"
     );
@@ -33,28 +41,33 @@ export async function createRealtimeClient(
 
   const url = new URL(request.url);
   const auth = getAuthToken(url);
-  const tokenOk = await validateAuth(auth, env, "client");
-  if (!tokenOk) {
+  const authPayload = await readAuthPayload(auth, env, "client");
+  if (!authPayload) {
     return new Response("Unauthorized", { status: 401 });
   }
+  // The storefront the widget is embedded in, unless the token names one
+  const tenant = resolveTenant({
+    tenantId: authPayload.claims?.tenant,
+    origin: request.headers.get("Origin"),
+  });
+  rackyLog(`[client] tenant: ${tenant.id}`);
+  // Only picks the language of our own notices; the model follows the visitor
+  const language =
+    normalizeLanguage(url.searchParams.get("lang")) ?? DEFAULT_LANGUAGE;
 
   const webSocketPair = new WebSocketPair();
   const [clientSocket, serverSocket] = Object.values(webSocketPair);
   serverSocket.accept();
 
-  let realtimeClient: RealtimeClient | null = null;
+  let realtimeClient: RealtimeBackend;
 
   try {
-    rackyLog("Creating OpenAIRealtimeClient");
-    realtimeClient = new RealtimeClient({
-      apiKey,
-      debug: true,
-      url: OPENAI_URL,
-    });
+    rackyLog("Creating realtime backend");
+    realtimeClient = createRealtimeBackend(env, { debug: true });
   } catch (e) {
-    rackyError("Error creating OpenAI RealtimeClient", e);
+    rackyError("Error creating realtime backend", e);
     serverSocket.close();
-    return new Response("Error creating OpenAI RealtimeClient", {
+    return new Response("Error creating realtime backend", {
       status: 500,
     });
   }
@@ -64,7 +77,7 @@ export async function createRealtimeClient(
       serverSocket.send(
         JSON.stringify({
           type: "system.time_limit",
-          message: FINAL_TIME_LIMIT_MESSAGE,
+          message: messagesFor(language).finalTimeLimit,
         })
       );
     } catch {}
@@ -72,7 +85,7 @@ export async function createRealtimeClient(
       serverSocket.close(4000, "time_limit");
     } catch {}
     try {
-      realtimeClient?.disconnect();
+      realtimeClient.close();
     } catch {}
   };
   const clientTimeLimitTimer = setTimeout(
@@ -80,11 +93,11 @@ export async function createRealtimeClient(
     TIME_LIMIT_MS
   );
 
-  realtimeClient.realtime.on("server.*", (event: { type: string }) => {
+  realtimeClient.onServerEvent((event) => {
     serverSocket.send(JSON.stringify(event));
   });
 
-  realtimeClient.realtime.on("close", (metadata: { error: boolean }) => {
+  realtimeClient.onClose((metadata) => {
     rackyLog(
       `Closing server-side because I received a close event: (error: ${metadata.error})`
     );
@@ -95,7 +108,7 @@ export async function createRealtimeClient(
   const messageHandler = (data: string) => {
     try {
       const parsedEvent = JSON.parse(data);
-      realtimeClient.realtime.send(parsedEvent.type, parsedEvent);
+      realtimeClient.send(parsedEvent);
     } catch (e) {
       rackyError("Error parsing event from client", data);
     }
@@ -115,7 +128,7 @@ export async function createRealtimeClient(
     rackyLog(
       `Closing server-side because the client closed the connection: ${code} ${reason}`
     );
-    realtimeClient.disconnect();
+    realtimeClient.close();
     messageQueue.length = 0;
     try {
       clearTimeout(clientTimeLimitTimer);
@@ -128,9 +141,16 @@ export async function createRealtimeClient(
     (async () => {
       try {
         rackyLog(`Connecting to OpenAI...`);
-        // @ts-expect-error Waiting on openai sdk types
         await realtimeClient.connect({ model });
         rackyLog(`Connected to OpenAI successfully!`);
+        // Tenant defaults first; the client's own session.update still wins
+        realtimeClient.send({
+          type: "session.update",
+          session: {
+            voice: tenant.voice,
+            instructions: chatPrompt(tenant, new Date().toISOString()),
+          },
+        });
         while (messageQueue.length) {
           const message = messageQueue.shift();
           if (message) messageHandler(message);
@@ -0,0 +1,90 @@
+import { rackyError } from "../utils/log";
+import type { RealtimeServerEvent } from "./backend";
+
+// The realtime server events the Twilio bridge acts on (beta event shapes)
+export type RealtimeEvent =
+  | { type: "session.created" }
+  | { type: "session.updated" }
+  | {
+      type: "error";
+      error?: { type?: string; code?: string; message?: string };
+    }
+  | { type: "response.created"; response?: { id?: string } }
+  | { type: "response.done"; response?: { id?: string; status?: string } }
+  | {
+      type: "response.audio.delta";
+      response_id?: string;
+      item_id?: string;
+      delta?: string;
+    }
+  | {
+      type: "response.audio_transcript.delta";
+      item_id?: string;
+      delta?: string;
+    }
+  | {
+      type: "response.audio_transcript.done";
+      item_id?: string;
+      transcript?: string;
+    }
+  | {
+      type: "response.function_call_arguments.done";
+      call_id?: string;
+      name?: string;
+      arguments?: string;
+    }
+  | { type: "input_audio_buffer.speech_started"; item_id?: string }
+  | { type: "input_audio_buffer.speech_stopped"; item_id?: string }
+  | {
+      type: "conversation.item.input_audio_transcription.completed";
+      item_id?: string;
+      transcript?: string;
+    };
+
+export type RealtimeEventType = RealtimeEvent["type"];
+
+export type RealtimeEventOf<T extends RealtimeEventType> = Extract<
+  RealtimeEvent,
+  { type: T }
+>;
+
+/**
+ * Routes each server event to the handlers subscribed to its type, in
+ * subscription order. Handlers are isolated: one throwing is logged and the
+ * rest still run. `onAny` sees every event, including types not in the union.
+ */
+export function createRealtimeEventRouter(label: string) {
+  const handlers = new Map<string, ((event: RealtimeEvent) => void)[]>();
+  const anyHandlers: ((event: RealtimeServerEvent) => void)[] = [];
+
+  function run<E>(handler: (event: E) => void, event: E, type: string) {
+    try {
+      handler(event);
+    } catch (e) {
+      rackyError(`[${label}] handler for ${type} failed`, e);
+    }
+  }
+
+  return {
+    on<T extends RealtimeEventType>(
+      type: T,
+      handler: (event: RealtimeEventOf<T>) => void
+    ): void {
+      const list = handlers.get(type) ?? [];
+      list.push(handler as (event: RealtimeEvent) => void);
+      handlers.set(type, list);
+    },
+    onAny(handler: (event: RealtimeServerEvent) => void): void {
+      anyHandlers.push(handler);
+    },
+    dispatch(event: RealtimeServerEvent): void {
+      if (!event?.type) return;
+      for (const handler of anyHandlers) run(handler, event, event.type);
+      for (const handler of handlers.get(event.type) ?? []) {
+        run(handler, event as RealtimeEvent, event.type);
+      }
+    },
+  };
+}
+
+export type RealtimeEventRouter = ReturnType<typeof createRealtimeEventRouter>;
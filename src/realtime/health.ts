@@ -0,0 +1,120 @@
+import {
+  UPSTREAM_HEALTH_COOLDOWN_MS,
+  UPSTREAM_HEALTH_FAILURE_THRESHOLD,
+} from "../config/config";
+import { rackyError } from "../utils/log";
+
+export type UpstreamHealthState = {
+  consecutiveFailures: number;
+  lastFailureAt: string | null; // ISO
+  lastSuccessAt: string | null;
+  lastError: string | null;
+};
+
+export type UpstreamHealthStatus = UpstreamHealthState & { healthy: boolean };
+
+const HEALTH_NAME = "openai-realtime";
+const STATE_KEY = "state";
+
+/**
+ * Unhealthy after a run of connect failures, until the cooldown passes; calls
+ * then get through again and the next failure restarts the cooldown.
+ */
+function isHealthy(state: UpstreamHealthState, now: number): boolean {
+  if (state.consecutiveFailures < UPSTREAM_HEALTH_FAILURE_THRESHOLD) {
+    return true;
+  }
+  const lastFailure = state.lastFailureAt ? Date.parse(state.lastFailureAt) : 0;
+  return now - lastFailure > UPSTREAM_HEALTH_COOLDOWN_MS;
+}
+
+// Durable Object implementation, a single instance for the whole deployment
+export class UpstreamHealth {
+  private readonly state: DurableObjectState;
+
+  constructor(state: DurableObjectState, _env: unknown) {
+    this.state = state;
+  }
+
+  async fetch(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+    const current = (await this.state.storage.get<UpstreamHealthState>(
+      STATE_KEY
+    )) ?? {
+      consecutiveFailures: 0,
+      lastFailureAt: null,
+      lastSuccessAt: null,
+      lastError: null,
+    };
+    if (url.pathname === "/report" && request.method === "POST") {
+      const { ok, error } = (await request.json()) as {
+        ok?: boolean;
+        error?: string;
+      };
+      const nowIso = new Date().toISOString();
+      const next: UpstreamHealthState = ok
+        ? { ...current, consecutiveFailures: 0, lastSuccessAt: nowIso }
+        : {
+            ...current,
+            consecutiveFailures: current.consecutiveFailures + 1,
+            lastFailureAt: nowIso,
+            lastError: error ?? null,
+          };
+      await this.state.storage.put(STATE_KEY, next);
+      return new Response("ok");
+    }
+    if (url.pathname === "/status" && request.method === "GET") {
+      const status: UpstreamHealthStatus = {
+        ...current,
+        healthy: isHealthy(current, Date.now()),
+      };
+      return new Response(JSON.stringify(status), {
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+    return new Response("Not Found", { status: 404 });
+  }
+}
+
+type HealthEnv = { UPSTREAM_HEALTH?: DurableObjectNamespace };
+
+function healthStub(ns: DurableObjectNamespace): DurableObjectStub {
+  return ns.get(ns.idFromName(HEALTH_NAME));
+}
+
+// Called by the bridge after each OpenAI connect attempt
+export async function reportUpstreamResult(
+  env: HealthEnv,
+  ok: boolean,
+  error?: string
+): Promise<void> {
+  const ns = env.UPSTREAM_HEALTH;
+  if (!ns) return;
+  try {
+    await healthStub(ns).fetch("https://do/report", {
+      method: "POST",
+      body: JSON.stringify({ ok, error }),
+    });
+  } catch (e) {
+    rackyError("[upstream-health] report failed", e);
+  }
+}
+
+/**
+ * Pre-flight check for the voice webhook. Fails open: without the binding,
+ * or if the lookup itself fails, calls go to the assistant as before.
+ */
+export async function getUpstreamHealth(
+  env: HealthEnv
+): Promise<UpstreamHealthStatus | null> {
+  const ns = env.UPSTREAM_HEALTH;
+  if (!ns) return null;
+  try {
+    const res = await healthStub(ns).fetch("https://do/status");
+    if (!res.ok) return null;
+    return (await res.json()) as UpstreamHealthStatus;
+  } catch (e) {
+    rackyError("[upstream-health] status failed", e);
+    return null;
+  }
+}
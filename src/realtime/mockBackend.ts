@@ -0,0 +1,315 @@
+import { MOCK_BARGE_IN_AFTER_MS } from "../config/config";
+import { bytesToBase64 } from "../utils/base64";
+import { rackyLog } from "../utils/log";
+import type {
+  RealtimeBackend,
+  RealtimeClientEvent,
+  RealtimeServerEvent,
+} from "./backend";
+
+// A server event, sent delayMs after the previous one in the same batch
+export type MockScriptedEvent = {
+  delayMs?: number;
+  event: RealtimeServerEvent;
+};
+
+/**
+ * Reacts to one client event type ("connect" fires once the mock session
+ * is up). Returning events from `respond` schedules them in order.
+ */
+export type MockScriptStep = {
+  on: string;
+  respond: (
+    event: RealtimeClientEvent,
+    session: MockSessionState
+  ) => MockScriptedEvent[];
+};
+
+export type MockSessionState = {
+  outputAudioFormat: "g711_ulaw" | "pcm16";
+  responseCount: number;
+  // turn_detection.create_response: answer each caller turn on its own
+  createResponse: boolean;
+};
+
+export type MockRealtimeBackend = RealtimeBackend & {
+  // Every client event received, oldest first
+  readonly sent: RealtimeClientEvent[];
+  // Pushes a server event right away, e.g. a caller turn mid-response
+  emit(event: RealtimeServerEvent): void;
+  // Simulates the provider dropping the session
+  drop(error?: boolean): void;
+};
+
+const FRAME_MS = 20;
+
+// Silence for one frame in the session's output format
+function silentFrame(format: MockSessionState["outputAudioFormat"]): string {
+  return format === "pcm16"
+    ? bytesToBase64(new Uint8Array((24000 * FRAME_MS * 2) / 1000))
+    : bytesToBase64(new Uint8Array((8000 * FRAME_MS) / 1000).fill(0xff));
+}
+
+/**
+ * One assistant response: response.created, audio deltas paced in real
+ * time, the transcript, then response.done.
+ */
+export function mockAssistantTurn(
+  session: MockSessionState,
+  options: { itemId?: string; frames?: number; transcript?: string } = {}
+): MockScriptedEvent[] {
+  const responseId = `resp_mock_${session.responseCount}`;
+  const itemId = options.itemId ?? `item_mock_${session.responseCount}`;
+  const frames = options.frames ?? 50;
+  const transcript = options.transcript ?? "Hi, this is a test response.";
+  const delta = silentFrame(session.outputAudioFormat);
+  const events: MockScriptedEvent[] = [
+    { event: { type: "response.created", response: { id: responseId } } },
+  ];
+  for (let i = 0; i < frames; i++) {
+    events.push({
+      delayMs: i === 0 ? 0 : FRAME_MS,
+      event: {
+        type: "response.audio.delta",
+        response_id: responseId,
+        item_id: itemId,
+        content_index: 0,
+        delta,
+      },
+    });
+  }
+  events.push(
+    {
+      event: {
+        type: "response.audio_transcript.done",
+        response_id: responseId,
+        item_id: itemId,
+        transcript,
+      },
+    },
+    { event: { type: "response.audio.done", item_id: itemId } },
+    {
+      event: {
+        type: "response.done",
+        response: { id: responseId, status: "completed" },
+      },
+    }
+  );
+  return events;
+}
+
+// The server VAD side of a caller turn, transcription included
+export function mockCallerTurn(
+  options: {
+    itemId?: string;
+    transcript?: string;
+    speechMs?: number;
+    startDelayMs?: number;
+  } = {}
+): MockScriptedEvent[] {
+  const itemId = options.itemId ?? `item_caller_${Date.now()}`;
+  return [
+    {
+      delayMs: options.startDelayMs ?? 0,
+      event: { type: "input_audio_buffer.speech_started", item_id: itemId },
+    },
+    {
+      delayMs: options.speechMs ?? 1200,
+      event: { type: "input_audio_buffer.speech_stopped", item_id: itemId },
+    },
+    {
+      delayMs: 300,
+      event: {
+        type: "conversation.item.input_audio_transcription.completed",
+        item_id: itemId,
+        content_index: 0,
+        transcript: options.transcript ?? "Hello?",
+      },
+    },
+  ];
+}
+
+/**
+ * Greets on every response.create and acknowledges session and truncate
+ * events. The caller talks over the first greeting after
+ * MOCK_BARGE_IN_AFTER_MS; the reply to that turn then plays out in full.
+ */
+export const DEFAULT_MOCK_SCRIPT: MockScriptStep[] = [
+  {
+    on: "connect",
+    respond: () => [
+      { event: { type: "session.created", session: { id: "sess_mock" } } },
+    ],
+  },
+  {
+    on: "session.update",
+    respond: (event) => [
+      { event: { type: "session.updated", session: event.session ?? {} } },
+    ],
+  },
+  {
+    on: "response.create",
+    respond: (_event, session) => mockAssistantTurn(session),
+  },
+  {
+    on: "response.create",
+    respond: (_event, session) =>
+      session.responseCount === 1 && MOCK_BARGE_IN_AFTER_MS != null
+        ? mockCallerTurn({
+            itemId: "item_caller_barge_in",
+            transcript: "Sorry, can I ask something first?",
+            startDelayMs: MOCK_BARGE_IN_AFTER_MS,
+          })
+        : [],
+  },
+  {
+    on: "conversation.item.truncate",
+    respond: (event) => [
+      {
+        event: {
+          type: "conversation.item.truncated",
+          item_id: event.item_id,
+          content_index: event.content_index ?? 0,
+          audio_end_ms: event.audio_end_ms ?? 0,
+        },
+      },
+    ],
+  },
+];
+
+/**
+ * Offline stand-in for the realtime provider. Replays canned server events
+ * for the client events it sees, so barge-in truncation, mark draining and
+ * the graceful close paths run without network access. Like the real
+ * server, response.cancel stops the response still being scheduled (not a
+ * caller turn in progress) and speech_stopped gets a reply unless the
+ * session turned create_response off.
+ */
+export function createMockRealtimeBackend(
+  options: {
+    script?: MockScriptStep[];
+    connectDelayMs?: number;
+    failConnect?: boolean;
+  } = {}
+): MockRealtimeBackend {
+  const script = options.script ?? DEFAULT_MOCK_SCRIPT;
+  const eventHandlers = new Set<(event: RealtimeServerEvent) => void>();
+  const closeHandlers = new Set<(info: { error: boolean }) => void>();
+  // Scheduled events by timer, so cancel can leave caller turns running
+  const pending = new Map<ReturnType<typeof setTimeout>, string>();
+  const sent: RealtimeClientEvent[] = [];
+  const session: MockSessionState = {
+    outputAudioFormat: "g711_ulaw",
+    responseCount: 0,
+    createResponse: true,
+  };
+  let connected = false;
+
+  function emit(event: RealtimeServerEvent) {
+    if (!connected) return;
+    for (const handler of eventHandlers) handler(event);
+    // Server VAD: the end of a caller turn starts the reply
+    if (
+      event.type === "input_audio_buffer.speech_stopped" &&
+      session.createResponse
+    ) {
+      session.responseCount++;
+      schedule(mockAssistantTurn(session));
+    }
+  }
+
+  function schedule(events: MockScriptedEvent[]) {
+    let at = 0;
+    for (const { delayMs, event } of events) {
+      at += delayMs ?? 0;
+      const timer = setTimeout(() => {
+        pending.delete(timer);
+        emit(event);
+      }, at);
+      pending.set(timer, event.type);
+    }
+  }
+
+  // All scheduled events, or only those of the response in progress
+  function cancelPending(responseOnly = false) {
+    for (const [timer, type] of pending) {
+      if (responseOnly && !type.startsWith("response.")) continue;
+      clearTimeout(timer);
+      pending.delete(timer);
+    }
+  }
+
+  function responsePending(): boolean {
+    return [...pending.values()].some((type) => type.startsWith("response."));
+  }
+
+  function runScript(trigger: RealtimeClientEvent) {
+    for (const step of script) {
+      if (step.on === trigger.type) schedule(step.respond(trigger, session));
+    }
+  }
+
+  function shutDown(error: boolean) {
+    if (!connected) return;
+    cancelPending();
+    connected = false;
+    for (const handler of closeHandlers) handler({ error });
+  }
+
+  return {
+    name: "mock",
+    sent,
+    async connect() {
+      await new Promise((r) => setTimeout(r, options.connectDelayMs ?? 50));
+      if (options.failConnect) throw new Error("mock connect failure");
+      connected = true;
+      rackyLog("[mock-backend] connected");
+      runScript({ type: "connect" });
+    },
+    isConnected: () => connected,
+    send(event: RealtimeClientEvent) {
+      if (!connected) throw new Error("mock backend is not connected");
+      sent.push(event);
+      if (event.type === "session.update") {
+        const update = event.session as {
+          output_audio_format?: string;
+          turn_detection?: { create_response?: boolean };
+        };
+        const format = update?.output_audio_format;
+        if (format === "pcm16" || format === "g711_ulaw") {
+          session.outputAudioFormat = format;
+        }
+        if (update?.turn_detection) {
+          session.createResponse =
+            update.turn_detection.create_response !== false;
+        }
+      }
+      if (event.type === "response.create") session.responseCount++;
+      if (event.type === "response.cancel" && responsePending()) {
+        cancelPending(true);
+        emit({
+          type: "response.done",
+          response: { status: "cancelled" },
+        });
+      }
+      runScript(event);
+    },
+    onServerEvent(handler) {
+      eventHandlers.add(handler);
+      return () => eventHandlers.delete(handler);
+    },
+    onClose(handler) {
+      closeHandlers.add(handler);
+      return () => closeHandlers.delete(handler);
+    },
+    emit(event: RealtimeServerEvent) {
+      emit(event);
+    },
+    drop(error = true) {
+      shutDown(error);
+    },
+    close() {
+      shutDown(false);
+    },
+  };
+}
@@ -0,0 +1,41 @@
+import { RealtimeClient } from "@openai/realtime-api-beta";
+import type {
+  RealtimeBackend,
+  RealtimeClientEvent,
+  RealtimeServerEvent,
+} from "./backend";
+
+// RealtimeClient from @openai/realtime-api-beta behind the backend interface
+export function createOpenAIRealtimeBackend(options: {
+  apiKey: string;
+  url: string;
+  debug: boolean;
+}): RealtimeBackend {
+  const client = new RealtimeClient({
+    apiKey: options.apiKey,
+    debug: options.debug,
+    url: options.url,
+  });
+  return {
+    name: "openai",
+    async connect({ model }) {
+      // @ts-expect-error Waiting on sdk types
+      await client.connect({ model });
+    },
+    isConnected: () => client.isConnected(),
+    send(event: RealtimeClientEvent) {
+      client.realtime.send(event.type, event);
+    },
+    onServerEvent(handler: (event: RealtimeServerEvent) => void) {
+      client.realtime.on("server.*", handler);
+      return () => client.realtime.off("server.*", handler);
+    },
+    onClose(handler: (info: { error: boolean }) => void) {
+      client.realtime.on("close", handler);
+      return () => client.realtime.off("close", handler);
+    },
+    close() {
+      if (client.isConnected()) client.disconnect();
+    },
+  };
+}
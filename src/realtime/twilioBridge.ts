@@ -1,23 +1,85 @@
-import { RealtimeClient } from "@openai/realtime-api-beta";
 import {
-  ALLOWED_VOICES,
-  DEFAULT_VOICE,
-  FINAL_TIME_LIMIT_MESSAGE,
+  CALL_RECAP_ENABLED,
+  CALLER_MEMORY_ENABLED,
+  CALL_RECORDING_DEFAULT,
+  CALL_RECORDING_MAX_MS,
+  DTMF_COLLECT_MS,
+  IDLE_CHECK_IN_MS,
+  IDLE_HANG_UP_MS,
+  LANGUAGE_DETECT_MAX_TURNS,
   LOG_EVENT_TYPES,
   MODEL,
-  OPENAI_URL,
   SHOW_TIMING_MATH,
-  TIME_LIMIT_MS,
-  VoiceName,
+  TIME_LIMIT_WARNING_MS,
+  TRANSFER_CLOSE_FALLBACK_MS,
+  UPSTREAM_FAILURE_FALLBACK,
+  UPSTREAM_QUEUE_MAX,
+  UPSTREAM_RECONNECT_BACKOFF_MS,
+  UPSTREAM_RECONNECT_BUDGET_MS,
+  UPSTREAM_RECONNECT_MAX_ATTEMPTS,
+  VOICEMAIL_SCRIPT_FALLBACK_MS,
 } from "../config/config";
+import {
+  callProfileInstructions,
+  resolveCallConfig,
+} from "../config/callConfig";
 import type { Env } from "../config/env";
+import {
+  CallChannelEvent,
+  connectCallChannel,
+  LiveCallSpeaker,
+} from "../calls/callSession";
+import { CallCloseReason, updateCallRecord } from "../calls/records";
+import { createLiveCallReporter } from "../calls/reporter";
+import { createAudioTranscoder } from "../audio/transcoder";
+import { isAddressedToAssistant } from "../conferences/conference";
+import { buildTransferTwiml } from "../http/transfer";
+import {
+  DEFAULT_LANGUAGE,
+  Language,
+  messagesFor,
+  normalizeLanguage,
+} from "../i18n/catalog";
+import { detectLanguage, languageForNumber } from "../i18n/detect";
+import {
+  createCallRecorder,
+  uploadCallRecording,
+} from "../recording/callRecorder";
 import {
   buildInitialCallGreeting,
+  buildVoicemailScriptInstruction,
   chatPrompt,
   realtimeConcatPrompt,
 } from "../prompts/chat";
-import { getAuthToken, validateAuth } from "../utils/auth";
+import { createLatencyTracker } from "../metrics/latency";
+import { resolveTenant, tenantForNumber } from "../tenants/registry";
+import { createTranscriptCollector } from "../transcripts/collector";
+import { buildTranscriptReplayItems } from "../transcripts/replay";
+import { readTranscript, TranscriptLine } from "../transcripts/store";
+import {
+  createRealtimeBackend,
+  RealtimeBackend,
+  realtimeBackendConfigured,
+} from "./backend";
+import { createRealtimeEventRouter } from "./events";
+import { reportUpstreamResult } from "./health";
+import {
+  realtimeToolSpecs,
+  runTool,
+  toolsForChannel,
+} from "../tools/registry";
+import { loadCallerSmsMemory } from "../twilio/callerMemory";
+import { parseTransferTarget, redirectLiveCall } from "../twilio/helpers";
+import { followUpCallResult } from "../twilio/callResult";
+import { sendPostCallRecap } from "../twilio/recap";
+import { getAuthToken, readAuthPayload } from "../utils/auth";
+import { getCallerQuota, recordCallerUsage } from "../utils/callerQuota";
+import {
+  createVoicemailDetector,
+  VoicemailSignal,
+} from "./voicemailDetector";
 import { rackyError, rackyLog } from "../utils/log";
+import { buildTwimlSayHangup } from "../utils/xml";
 
 type NullableString = string | null;
 type TwilioBaseEvent = { event: string };
@@ -26,6 +88,7 @@ type TwilioStartEvent = {
   event: "start";
   start?: {
     streamSid?: string | null;
+    callSid?: string | null;
     customParameters?: TwilioCustomParameter[];
     custom_parameters?: TwilioCustomParameter[];
   };
@@ -35,10 +98,15 @@ type TwilioMediaEvent = {
   media?: { payload?: string; timestamp?: number | string };
 };
 type TwilioMarkEvent = { event: "mark" };
+type TwilioDtmfEvent = {
+  event: "dtmf";
+  dtmf?: { track?: string; digit?: string };
+};
 type TwilioEvent =
   | TwilioStartEvent
   | TwilioMediaEvent
   | TwilioMarkEvent
+  | TwilioDtmfEvent
   | TwilioBaseEvent;
 
 function isMediaEvent(e: TwilioEvent): e is TwilioMediaEvent {
@@ -50,6 +118,9 @@ function isStartEvent(e: TwilioEvent): e is TwilioStartEvent {
 function isMarkEvent(e: TwilioEvent): e is TwilioMarkEvent {
   return e.event === "mark";
 }
+function isDtmfEvent(e: TwilioEvent): e is TwilioDtmfEvent {
+  return e.event === "dtmf";
+}
 
 export async function createTwilioRealtimeBridge(
   request: Request,
@@ -66,11 +137,10 @@ export async function createTwilioRealtimeBridge(
   const responseHeaders = new Headers();
   responseHeaders.set("Sec-WebSocket-Protocol", "audio");
 
-  const apiKey = env.OPENAI_API_KEY;
   const reqUrl = new URL(request.url);
   const auth = getAuthToken(reqUrl);
-  const authOk = await validateAuth(auth, env, "twilio");
-  if (!authOk) {
+  const authPayload = await readAuthPayload(auth, env, "twilio");
+  if (!authPayload) {
     try {
       serverSocket.close(1008, "Unauthorized");
     } catch {}
@@ -80,6 +150,9 @@ export async function createTwilioRealtimeBridge(
       webSocket: clientSocket,
     });
   }
+  // The relay token is minted as the TwiML goes out
+  const latency = createLatencyTracker();
+  latency.record("webhook_to_ws", connectionStart - authPayload.iat);
   const voiceParam = (reqUrl.searchParams.get("voice") || "").toLowerCase();
   const directionParam = (
     reqUrl.searchParams.get("direction") || ""
@@ -89,11 +162,18 @@ export async function createTwilioRealtimeBridge(
 
   let voicemailMode = false;
   let callDirection: "inbound" | "outbound" | "unknown" = "unknown";
-  const selectedVoice: VoiceName = ALLOWED_VOICES.includes(
-    voiceParam as VoiceName
-  )
-    ? (voiceParam as VoiceName)
-    : DEFAULT_VOICE;
+  // Brand, prompts and bot identity for this call; the webhook resolved it from our number
+  // Carried over to the stream that resumes after a failed transfer
+  const tokenClaims = authPayload.claims ?? {};
+  const tenant = resolveTenant({ tenantId: authPayload.claims?.tenant });
+  // Validated again here; the token only proves the settings came from our webhook
+  const callConfig = resolveCallConfig(
+    authPayload.claims?.call ?? (voiceParam ? { voice: voiceParam } : {}),
+    { voice: tenant.voice }
+  );
+  rackyLog("[twilio] call config", tenant.id, callConfig);
+  // Twilio always speaks μ-law 8 kHz; pcm16 sessions are transcoded here
+  const audioTranscoder = createAudioTranscoder(callConfig.audioFormat);
 
   if (directionParam === "inbound" || directionParam === "outbound") {
     callDirection = directionParam as "inbound" | "outbound";
@@ -113,7 +193,7 @@ export async function createTwilioRealtimeBridge(
     );
   }
 
-  if (!apiKey) {
+  if (!realtimeBackendConfigured(env)) {
     rackyError("Missing OpenAI API key. Did you forget to set OPENAI_API_KEY?");
     try {
       serverSocket.close(1011, "Server misconfigured: missing API key");
@@ -126,6 +206,61 @@ export async function createTwilioRealtimeBridge(
   }
 
   let streamSid: NullableString = null;
+  let callSid: NullableString = null;
+  let resumeReason: "transfer_failed" | null =
+    reqUrl.searchParams.get("resume") === "transfer_failed"
+      ? "transfer_failed"
+      : null;
+  // Only from the signed token: memory, recap and quota all key off it
+  const callerNumber: NullableString = authPayload.claims?.caller ?? null;
+  // The webhook's hint (TwiML parameter, IVR choice or the number's country)
+  let callLanguage: Language =
+    normalizeLanguage(reqUrl.searchParams.get("lang")) ??
+    languageForNumber(callerNumber) ??
+    DEFAULT_LANGUAGE;
+  let languageTurnsChecked = 0;
+  let recapOptOut =
+    (reqUrl.searchParams.get("recap") || "").toLowerCase() === "off";
+  let recapSent = false;
+  // Token claim wins over the stream parameter; both come from our webhook
+  const recordClaim = authPayload.claims?.record;
+  // Campaign notes about the person we are calling
+  const callContext = authPayload.claims?.context ?? null;
+  // Set when the assistant is one participant of a Twilio conference
+  const conferenceName = authPayload.claims?.conference ?? null;
+  // Who is in the conference and who is talking, from its status callbacks
+  const conferencePeople = new Set<string>();
+  const conferenceSpeaking = new Set<string>();
+  let conferenceTurnSpeakers = new Set<string>();
+  const conferenceItemSpeakers = new Map<string, string[]>();
+  let lastConferenceSpeaker: NullableString = null;
+  // Condensed 1:1 SMS history with this caller, once loaded
+  let callerMemory: NullableString = null;
+  let callerMemoryRequested = false;
+  const recordParam = (reqUrl.searchParams.get("record") || "").toLowerCase();
+  let recordingEnabled =
+    recordClaim ??
+    (recordParam === "on"
+      ? true
+      : recordParam === "off"
+      ? false
+      : CALL_RECORDING_DEFAULT);
+  const recorder = createCallRecorder({ maxMs: CALL_RECORDING_MAX_MS });
+  let recordingSaved = false;
+  let callChannel: WebSocket | null = null;
+  // Live view for supervisors, pushed through the CallSession channel
+  const live = createLiveCallReporter();
+  let liveSpeaker: LiveCallSpeaker = "none";
+  // A supervisor took over the audio path; assistant audio is muted
+  let bargeActive = false;
+  // Recorded on the call's lifecycle record when the bridge closes
+  let closeReason: CallCloseReason | null = null;
+  // Mid-call OpenAI reconnects; the flags tell a drop from our own disconnect
+  let upstreamRecovering = false;
+  let greetingAudioMeasured = false;
+  let speechStoppedAt: number | null = null;
+  let upstreamClosedByUs = false;
+  let twilioClosed = false;
   let latestMediaTimestamp = 0;
   let lastAssistantItem: NullableString = null;
   let markQueue: string[] = [];
@@ -135,15 +270,57 @@ export async function createTwilioRealtimeBridge(
   let voicemailCloseRequested = false;
   let alreadyClosed = false;
   let greetingSent = false;
+  let sessionInitialized = false;
+  let responseActive = false;
+  let pendingResponseCreate = false;
+  let dtmfDigits = "";
+  let dtmfTimer: ReturnType<typeof setTimeout> | null = null;
+  const transcript = createTranscriptCollector(env, ctx, {
+    onLine: (line) => live.transcript(line),
+  });
+  // Set when voicemail is detected mid-call, until the script's response starts
+  let voicemailScriptPending = false;
+  let voicemailScriptRequested = false;
+  let voicemailScriptTimer: ReturnType<typeof setTimeout> | null = null;
+  const voicemailDetector = createVoicemailDetector(handleVoicemailSignal);
+  // Nobody in a conference is an answering machine
+  if (conferenceName) voicemailDetector.stop();
 
   let timeLimitTimer: ReturnType<typeof setTimeout> | null = null;
+  let timeLimitWarningTimer: ReturnType<typeof setTimeout> | null = null;
+  // Talk time charged to the caller's quota, from the stream's start event
+  let streamStartedAt: number | null = null;
+  // An inbound caller's remaining daily/monthly talk time, once looked up
+  let quotaRemainingMs: number | null = null;
   let timeLimitClosing = false;
   let timeLimitCloseFallback: ReturnType<typeof setTimeout> | null = null;
   let timeLimitCloseRequested = false;
+  // The time-limit close path also ends idle calls, with its own goodbye
+  let finalCloseReason: "time_limit" | "idle" = "time_limit";
+
+  // Idle detection: a check-in after IDLE_CHECK_IN_MS of silence, then a goodbye
+  let idleTimer: ReturnType<typeof setTimeout> | null = null;
+  let lastActivityAt = Date.now();
+  let idleCheckInSent = false;
+  let callerSpeaking = false;
 
-  function sendFinalAndClose() {
+  const transferTarget = parseTransferTarget(env.TRANSFER_TARGET);
+  let transferRequested = false;
+  // The transfer waits for the reply to the tool output (the "connecting you"
+  // line), not the response that called the tool
+  let transferOutputSent = false;
+  let transferReplyStarted = false;
+  let transferCloseRequested = false;
+  let transferCloseFallback: ReturnType<typeof setTimeout> | null = null;
+
+  function sendFinalAndClose(reason: "time_limit" | "idle" = "time_limit") {
     if (timeLimitClosing) return;
     timeLimitClosing = true;
+    finalCloseReason = reason;
+    live.event(reason);
+    const messages = messagesFor(callLanguage);
+    const finalMessage =
+      reason === "idle" ? messages.idleGoodbye : messages.finalTimeLimit;
     try {
       const item = {
         type: "conversation.item.create",
@@ -153,38 +330,150 @@ export async function createTwilioRealtimeBridge(
           content: [
             {
               type: "input_text",
-              text: `Please say exactly: ${FINAL_TIME_LIMIT_MESSAGE}`,
+              text: `Please say exactly: ${finalMessage}`,
             },
           ],
         },
       } as const;
-      realtimeClient!.realtime.send("conversation.item.create", item);
-      realtimeClient!.realtime.send("response.create", {
-        type: "response.create",
-      });
+      realtimeClient!.send(item);
+      realtimeClient!.send({ type: "response.create" });
     } catch {}
     try {
       if (timeLimitCloseFallback) clearTimeout(timeLimitCloseFallback);
       timeLimitCloseFallback = setTimeout(() => {
+        closeReason ??= finalCloseReason;
         try {
-          serverSocket.close(1000, "time_limit");
-        } catch {}
-        try {
-          realtimeClient?.disconnect();
+          serverSocket.close(1000, finalCloseReason);
         } catch {}
+        disconnectUpstream();
       }, 20_000);
     } catch {}
   }
 
+  // The call's limit, or less when the caller's quota runs out sooner
   function scheduleTimeLimit() {
+    // A conference ends when its people hang up, not on the assistant's clock
+    if (conferenceName) return;
     try {
+      const limitMs =
+        quotaRemainingMs == null
+          ? callConfig.timeLimitMs
+          : Math.min(callConfig.timeLimitMs, quotaRemainingMs);
+      const elapsedMs =
+        streamStartedAt == null ? 0 : Date.now() - streamStartedAt;
+      const remainingMs = Math.max(0, limitMs - elapsedMs);
       if (timeLimitTimer) clearTimeout(timeLimitTimer);
       timeLimitTimer = setTimeout(() => {
         sendFinalAndClose();
-      }, TIME_LIMIT_MS);
+      }, remainingMs);
+      if (timeLimitWarningTimer) clearTimeout(timeLimitWarningTimer);
+      if (remainingMs > TIME_LIMIT_WARNING_MS) {
+        timeLimitWarningTimer = setTimeout(
+          sendTimeLimitWarning,
+          remainingMs - TIME_LIMIT_WARNING_MS
+        );
+      }
     } catch {}
   }
 
+  // Inbound talk time is charged to the caller; the lookup reschedules the cap
+  function loadCallerQuota() {
+    if (callDirection !== "inbound" || !callerNumber) return;
+    ctx.waitUntil(
+      getCallerQuota(env, callerNumber).then((quota) => {
+        if (!quota || alreadyClosed || timeLimitClosing) return;
+        quotaRemainingMs = Math.min(
+          quota.dailyRemainingMs,
+          quota.monthlyRemainingMs
+        );
+        rackyLog(`[time-limit] caller quota leaves ${quotaRemainingMs}ms`);
+        if (timeLimitTimer) scheduleTimeLimit();
+      })
+    );
+  }
+
+  function sendTimeLimitWarning() {
+    timeLimitWarningTimer = null;
+    if (alreadyClosed || timeLimitClosing || transferRequested) return;
+    if (voicemailMode || !realtimeClient?.isConnected()) return;
+    rackyLog(`[time-limit] warning ${TIME_LIMIT_WARNING_MS}ms before the cap`);
+    live.event("time_limit_warning");
+    realtimeClient.send({
+      type: "conversation.item.create",
+      item: {
+        type: "message",
+        role: "user",
+        content: [
+          {
+            type: "input_text",
+            text: `SYSTEM: Let the caller know in a few words: "${
+              messagesFor(callLanguage).timeLimitWarning
+            }" Then continue where you were.`,
+          },
+        ],
+      },
+    });
+    requestResponse();
+  }
+
+  // Caller speech resets the check-in; assistant audio only moves the clock
+  function noteActivity(fromCaller: boolean) {
+    lastActivityAt = Date.now();
+    if (fromCaller) idleCheckInSent = false;
+  }
+
+  function scheduleIdleCheck(delayMs: number) {
+    try {
+      if (idleTimer) clearTimeout(idleTimer);
+      idleTimer = setTimeout(checkIdle, Math.max(delayMs, 250));
+    } catch {}
+  }
+
+  function checkIdle() {
+    idleTimer = null;
+    if (alreadyClosed || twilioClosed || timeLimitClosing) return;
+    if (voicemailMode || transferRequested || conferenceName) return;
+    // Time spent talking, playing audio or reconnecting is not silence
+    const busy =
+      callerSpeaking ||
+      responseActive ||
+      markQueue.length > 0 ||
+      bargeActive ||
+      upstreamRecovering ||
+      !realtimeClient?.isConnected();
+    if (busy) noteActivity(false);
+    const threshold = idleCheckInSent ? IDLE_HANG_UP_MS : IDLE_CHECK_IN_MS;
+    const silentFor = Date.now() - lastActivityAt;
+    if (silentFor < threshold) {
+      scheduleIdleCheck(threshold - silentFor);
+      return;
+    }
+    if (idleCheckInSent) {
+      rackyLog(`[idle] no reply to the check-in after ${silentFor}ms; ending`);
+      sendFinalAndClose("idle");
+      return;
+    }
+    rackyLog(`[idle] caller silent for ${silentFor}ms; checking in`);
+    idleCheckInSent = true;
+    noteActivity(false);
+    live.event("idle_check_in");
+    realtimeClient!.send({
+      type: "conversation.item.create",
+      item: {
+        type: "message",
+        role: "user",
+        content: [
+          {
+            type: "input_text",
+            text: "SYSTEM: The caller has been silent for a while. Briefly ask if they are still there.",
+          },
+        ],
+      },
+    });
+    requestResponse();
+    scheduleIdleCheck(IDLE_HANG_UP_MS);
+  }
+
   function finalizeVoicemailCloseIfDrained() {
     if (!voicemailCloseRequested || alreadyClosed) return;
     const postDrainDelay = 1500;
@@ -193,12 +482,11 @@ export async function createTwilioRealtimeBridge(
         setTimeout(() => {
           if (alreadyClosed) return;
           alreadyClosed = true;
+          closeReason ??= "voicemail_complete";
           try {
             serverSocket.close(1000, "voicemail_complete");
           } catch {}
-          try {
-            realtimeClient?.disconnect();
-          } catch {}
+          disconnectUpstream();
         }, postDrainDelay);
       } catch {}
     }
@@ -210,6 +498,230 @@ export async function createTwilioRealtimeBridge(
     finalizeVoicemailCloseIfDrained();
   }
 
+  function handleVoicemailSignal(signal: VoicemailSignal, detail: string) {
+    rackyLog(`[voicemail] in-band signal: ${signal} (${detail})`);
+    if (alreadyClosed || timeLimitClosing || transferRequested) return;
+    if (!voicemailMode) {
+      enterVoicemailMode(`in-band ${signal}`, signal === "beep");
+    } else if (voicemailScriptPending && signal === "beep") {
+      playVoicemailScript();
+    }
+  }
+
+  // Flip into voicemail mode on the fly: stop the greeting and wait for the beep
+  function enterVoicemailMode(source: string, playNow: boolean) {
+    const old = voicemailMode;
+    voicemailMode = true;
+    voicemailScriptPending = true;
+    rackyLog(
+      `[voicemail] voicemailMode changed from ${old} to ${voicemailMode} via ${source}`
+    );
+    live.state({ voicemailMode });
+    live.event("voicemail", { source });
+    try {
+      if (responseActive) {
+        realtimeClient?.send({ type: "response.cancel" });
+      }
+      handleSpeechStartedEvent();
+    } catch {}
+    if (playNow) {
+      playVoicemailScript();
+      return;
+    }
+    scheduleVoicemailScript(VOICEMAIL_SCRIPT_FALLBACK_MS);
+  }
+
+  // Async AMD result pushed from /twilio/amd through the call's channel
+  function handleAmdResult(answeredBy: string) {
+    const isMachine = answeredBy.startsWith("machine") || answeredBy === "fax";
+    rackyLog(
+      `[voicemail] async AMD result: ${answeredBy} (voicemailMode: ${voicemailMode})`
+    );
+    if (!isMachine) {
+      if (answeredBy === "human") voicemailDetector.stop();
+      return;
+    }
+    if (alreadyClosed || timeLimitClosing || transferRequested) return;
+    // machine_end_* arrives at the beep, so the script can start right away
+    const greetingOver = answeredBy.startsWith("machine_end");
+    if (!voicemailMode) {
+      enterVoicemailMode(`async AMD ${answeredBy}`, greetingOver);
+    } else if (voicemailScriptPending && greetingOver) {
+      playVoicemailScript();
+    }
+  }
+
+  function handleCallChannelEvent(evt: CallChannelEvent) {
+    if (evt.type === "amd") {
+      handleAmdResult((evt.answeredBy || "").toLowerCase());
+    }
+    if (evt.type === "monitor") {
+      rackyLog(`[call-session] supervisor audio mirror: ${evt.audio}`);
+      live.setAudioMirror(evt.audio);
+    }
+    if (evt.type === "whisper") handleSupervisorWhisper(evt.text);
+    if (evt.type === "barge") setSupervisorBarge(evt.active);
+    if (evt.type === "barge_audio") forwardSupervisorAudio(evt.payload);
+    if (evt.type === "conference_participant") {
+      handleConferenceParticipant(evt.label, evt.joined);
+    }
+    if (evt.type === "conference_speaker") {
+      handleConferenceSpeaker(evt.label, evt.speaking);
+    }
+  }
+
+  function handleConferenceParticipant(label: string, joined: boolean) {
+    if (!conferenceName) return;
+    if (joined) conferencePeople.add(label);
+    else {
+      conferencePeople.delete(label);
+      conferenceSpeaking.delete(label);
+    }
+    rackyLog(`[conference] ${label} ${joined ? "joined" : "left"}`);
+    live.event("conference_participant", { label, joined });
+    if (!realtimeClient?.isConnected()) return;
+    realtimeClient.send({
+      type: "conversation.item.create",
+      item: {
+        type: "message",
+        role: "system",
+        content: [
+          {
+            type: "input_text",
+            text: `CONFERENCE: ${label} ${
+              joined ? "joined" : "left"
+            } the call. Do not reply to this note.`,
+          },
+        ],
+      },
+    });
+  }
+
+  // Twilio reports each participant's talk spurts; a turn is credited to
+  // whoever spoke while the model heard speech
+  function handleConferenceSpeaker(label: string, speaking: boolean) {
+    if (!conferenceName) return;
+    if (!speaking) {
+      conferenceSpeaking.delete(label);
+      return;
+    }
+    conferenceSpeaking.add(label);
+    lastConferenceSpeaker = label;
+    if (callerSpeaking) conferenceTurnSpeakers.add(label);
+  }
+
+  // Private instruction from a supervisor; the caller never hears it
+  function handleSupervisorWhisper(text: string) {
+    if (!text) return;
+    rackyLog(`[supervisor] whisper: ${text}`);
+    live.event("whisper", { text });
+    if (!realtimeClient?.isConnected()) return;
+    realtimeClient.send({
+      type: "conversation.item.create",
+      item: {
+        type: "message",
+        role: "system",
+        content: [
+          {
+            type: "input_text",
+            text: `SUPERVISOR (private, the caller cannot hear this): ${text}`,
+          },
+        ],
+      },
+    });
+    if (!bargeActive) requestResponse();
+  }
+
+  function setSupervisorBarge(active: boolean) {
+    if (active === bargeActive) return;
+    bargeActive = active;
+    rackyLog(`[supervisor] barge ${active ? "started" : "ended"}`);
+    live.event("barge", { active });
+    if (!realtimeClient?.isConnected()) return;
+    try {
+      if (active) {
+        if (responseActive) {
+          realtimeClient.send({ type: "response.cancel" });
+        }
+        // Stop whatever the assistant was saying before the supervisor speaks
+        handleSpeechStartedEvent();
+      }
+      // Keep listening to the caller, but only reply once handed back
+      realtimeClient.send({
+        type: "session.update",
+        session: {
+          turn_detection: {
+            type: callConfig.turnDetection,
+            create_response: !active && !conferenceName,
+          },
+        },
+      });
+      if (!active) {
+        realtimeClient.send({
+          type: "conversation.item.create",
+          item: {
+            type: "message",
+            role: "system",
+            content: [
+              {
+                type: "input_text",
+                text: "SUPERVISOR: A team member just spoke with the caller directly and handed the call back. Continue from here without greeting again.",
+              },
+            ],
+          },
+        });
+      }
+    } catch (e) {
+      rackyError("[supervisor] barge update failed", e);
+    }
+  }
+
+  function forwardSupervisorAudio(payload: string) {
+    if (!bargeActive || !streamSid || !payload) return;
+    serverSocket.send(
+      JSON.stringify({ event: "media", streamSid, media: { payload } })
+    );
+    if (recordingEnabled) recorder.addOutbound(latestMediaTimestamp, payload);
+  }
+
+  function setLiveSpeaker(speaker: LiveCallSpeaker) {
+    if (speaker === liveSpeaker) return;
+    liveSpeaker = speaker;
+    live.state({ speaker });
+  }
+
+  function scheduleVoicemailScript(delayMs: number) {
+    try {
+      if (voicemailScriptTimer) clearTimeout(voicemailScriptTimer);
+      voicemailScriptTimer = setTimeout(playVoicemailScript, delayMs);
+    } catch {}
+  }
+
+  function playVoicemailScript() {
+    if (!voicemailScriptPending || voicemailScriptRequested) return;
+    if (!realtimeClient?.isConnected()) return;
+    voicemailScriptRequested = true;
+    voicemailDetector.stop();
+    try {
+      if (voicemailScriptTimer) clearTimeout(voicemailScriptTimer);
+    } catch {}
+    rackyLog("[voicemail] playing voicemail script");
+    realtimeClient.send({
+      type: "conversation.item.create",
+      item: {
+        type: "message",
+        role: "user",
+        content: [
+          {
+            type: "input_text",
+            text: buildVoicemailScriptInstruction(tenant, callLanguage),
+          },
+        ],
+      },
+    });
+    requestResponse();
+  }
+
   function finalizeTimeLimitCloseIfDrained() {
     if (!timeLimitCloseRequested || alreadyClosed) return;
     const postDrainDelay = 1500;
@@ -218,12 +730,11 @@ export async function createTwilioRealtimeBridge(
         setTimeout(() => {
           if (alreadyClosed) return;
           alreadyClosed = true;
+          closeReason ??= finalCloseReason;
           try {
-            serverSocket.close(1000, "time_limit");
-          } catch {}
-          try {
-            realtimeClient?.disconnect();
+            serverSocket.close(1000, finalCloseReason);
           } catch {}
+          disconnectUpstream();
           try {
             if (timeLimitCloseFallback) clearTimeout(timeLimitCloseFallback);
           } catch {}
@@ -238,17 +749,104 @@ export async function createTwilioRealtimeBridge(
     finalizeTimeLimitCloseIfDrained();
   }
 
-  let realtimeClient: RealtimeClient | null = null;
+  function requestTransfer(
+    reason: string
+  ): { ok: true } | { ok: false; error: string } {
+    if (!transferTarget) return { ok: false, error: "no_transfer_target" };
+    if (!callSid) return { ok: false, error: "unknown_call" };
+    if (voicemailMode || timeLimitClosing || alreadyClosed) {
+      return { ok: false, error: "call_ending" };
+    }
+    if (transferRequested) return { ok: true };
+    transferRequested = true;
+    rackyLog(`[transfer] requested for ${callSid}: ${reason}`);
+    live.event("transfer", { reason });
+    try {
+      if (transferCloseFallback) clearTimeout(transferCloseFallback);
+      transferCloseFallback = setTimeout(() => {
+        ctx.waitUntil(performTransfer());
+      }, TRANSFER_CLOSE_FALLBACK_MS);
+    } catch {}
+    return { ok: true };
+  }
+
+  async function performTransfer() {
+    if (alreadyClosed || !transferTarget || !callSid) return;
+    alreadyClosed = true;
+    try {
+      if (transferCloseFallback) clearTimeout(transferCloseFallback);
+    } catch {}
+    const twiml = await buildTransferTwiml(
+      env,
+      `https://${reqUrl.host}`,
+      transferTarget,
+      callDirection,
+      tenant,
+      tokenClaims,
+      callLanguage
+    );
+    // Set before the redirect: Twilio may stop the stream before it returns
+    const priorCloseReason = closeReason;
+    closeReason ??= "transfer";
+    const redirected = await redirectLiveCall(env, callSid, twiml);
+    if (!redirected) {
+      // Keep the caller with the assistant rather than dropping them
+      closeReason = priorCloseReason;
+      alreadyClosed = false;
+      transferRequested = false;
+      transferOutputSent = false;
+      transferReplyStarted = false;
+      transferCloseRequested = false;
+      // checkIdle stopped rescheduling once the transfer was requested
+      noteActivity(false);
+      scheduleIdleCheck(IDLE_CHECK_IN_MS);
+      try {
+        realtimeClient?.send({
+          type: "conversation.item.create",
+          item: {
+            type: "message",
+            role: "user",
+            content: [
+              {
+                type: "input_text",
+                text: "SYSTEM: The transfer failed. Apologize briefly and keep helping the caller.",
+              },
+            ],
+          },
+        });
+        realtimeClient?.send({ type: "response.create" });
+      } catch {}
+      return;
+    }
+    rackyLog(`[transfer] call ${callSid} redirected to staff`);
+    try {
+      serverSocket.close(1000, "transfer");
+    } catch {}
+    disconnectUpstream();
+  }
+
+  function finalizeTransferIfDrained() {
+    if (!transferCloseRequested || alreadyClosed) return;
+    if (markQueue.length === 0) {
+      try {
+        setTimeout(() => ctx.waitUntil(performTransfer()), 500);
+      } catch {}
+    }
+  }
+
+  function tryTransferAfterDrain() {
+    if (alreadyClosed) return;
+    transferCloseRequested = true;
+    finalizeTransferIfDrained();
+  }
+
+  let realtimeClient: RealtimeBackend | null = null;
   try {
     const clientCreateTime = Date.now() - connectionStart;
-    rackyLog(`[timing] Creating OpenAIRealtimeClient (Twilio mode) at +${clientCreateTime}ms`);
-    realtimeClient = new RealtimeClient({
-      apiKey,
-      debug: false,
-      url: OPENAI_URL,
-    });
+    rackyLog(`[timing] Creating realtime backend (Twilio mode) at +${clientCreateTime}ms`);
+    realtimeClient = createUpstreamClient();
   } catch (e) {
-    rackyError("Error creating OpenAI RealtimeClient (Twilio mode)", e);
+    rackyError("Error creating realtime backend (Twilio mode)", e);
     try {
       serverSocket.close(1011, "Upstream client init failure");
     } catch {}
@@ -259,23 +857,155 @@ export async function createTwilioRealtimeBridge(
     });
   }
 
-  function initializeSession() {
-    const instructions = realtimeConcatPrompt(
-      chatPrompt(new Date().toISOString())
+  function sessionInstructions(): string {
+    const { languageRule } = messagesFor(callLanguage);
+    const profileRule = callProfileInstructions(callConfig.profile);
+    const contextRule = !callContext
+      ? ""
+      : conferenceName
+      ? `Call context (notes about this job): ${callContext}\n\n`
+      : `Call context (from our call list, about the person you are calling): ${callContext}\n\n`;
+    const conferenceRule = conferenceName
+      ? 'Conference call (CRITICAL): You are one participant on a call with several people. After each thing someone says you get a note naming who said it. Stay silent and listen unless someone addresses you (e.g. "hey assistant") or asks for a summary; then answer briefly, speak to that person by name or role, and go quiet again. Summaries cover what was agreed, open questions and who does what next.\n\n'
+      : "";
+    const memoryRule = callerMemory
+      ? `Earlier text messages with this caller (oldest first). Use them when relevant, e.g. if the caller refers to something they texted; don't read them out:\n${callerMemory}\n\n`
+      : "";
+    return realtimeConcatPrompt(
+      tenant,
+      (languageRule ? `${languageRule}\n\n` : "") +
+        conferenceRule +
+        contextRule +
+        memoryRule +
+        (profileRule ? `${profileRule}\n\n` : "") +
+        chatPrompt(tenant, new Date().toISOString()),
+      callLanguage
     );
+  }
+
+  function setCallLanguage(language: Language, source: string) {
+    if (language === callLanguage) return;
+    rackyLog(`[language] ${callLanguage} -> ${language} (${source})`);
+    callLanguage = language;
+    live.event("language", { language, source });
+    if (!sessionInitialized || !realtimeClient?.isConnected()) return;
+    realtimeClient.send({
+      type: "session.update",
+      session: { instructions: sessionInstructions() },
+    });
+  }
+
+  function initializeSession() {
+    const instructions = sessionInstructions();
     const sessionUpdate = {
       type: "session.update",
       session: {
-        turn_detection: { type: "server_vad" },
-        input_audio_format: "g711_ulaw",
-        output_audio_format: "g711_ulaw",
-        voice: selectedVoice,
+        // In a conference the assistant only answers when addressed
+        turn_detection: conferenceName
+          ? { type: callConfig.turnDetection, create_response: false }
+          : { type: callConfig.turnDetection },
+        input_audio_format: callConfig.audioFormat,
+        output_audio_format: callConfig.audioFormat,
+        input_audio_transcription: { model: "whisper-1" },
+        voice: callConfig.voice,
         instructions,
         modalities: ["text", "audio"],
-        temperature: 0.8,
+        temperature: callConfig.temperature,
+        tools: realtimeToolSpecs(toolsForChannel("voice")),
+        tool_choice: "auto",
       },
     } as const;
-    realtimeClient!.realtime.send("session.update", sessionUpdate);
+    realtimeClient!.send(sessionUpdate);
+    sessionInitialized = true;
+  }
+
+  // Loads in the background; a session that is already up gets new instructions
+  function loadCallerMemory() {
+    if (!CALLER_MEMORY_ENABLED || callerMemoryRequested) return;
+    if (!callerNumber || !callerNumber.startsWith("+")) return;
+    callerMemoryRequested = true;
+    ctx.waitUntil(
+      loadCallerSmsMemory(env, callerNumber, tenant).then((memory) => {
+        if (!memory || alreadyClosed || twilioClosed) return;
+        callerMemory = memory;
+        if (!sessionInitialized || !realtimeClient?.isConnected()) return;
+        realtimeClient.send({
+          type: "session.update",
+          session: { instructions: sessionInstructions() },
+        });
+      })
+    );
+  }
+
+  // Ask for a response now, or as soon as the one in flight is done
+  function requestResponse() {
+    if (responseActive) {
+      pendingResponseCreate = true;
+      return;
+    }
+    realtimeClient!.send({ type: "response.create" });
+  }
+
+  function flushDtmfDigits() {
+    dtmfTimer = null;
+    const digits = dtmfDigits;
+    dtmfDigits = "";
+    if (!digits || voicemailMode || alreadyClosed) return;
+    if (!realtimeClient?.isConnected()) return;
+    rackyLog(`[twilio] DTMF digits forwarded to model: ${digits}`);
+    realtimeClient.send({
+      type: "conversation.item.create",
+      item: {
+        type: "message",
+        role: "user",
+        content: [
+          {
+            type: "input_text",
+            text: `SYSTEM: The caller pressed ${digits
+              .split("")
+              .join(", ")} on their phone keypad.`,
+          },
+        ],
+      },
+    });
+    requestResponse();
+  }
+
+  function handleDtmfDigit(digit: string) {
+    if (!/^[0-9*#]$/.test(digit)) return;
+    dtmfDigits += digit;
+    noteActivity(true);
+    live.event("dtmf", { digit });
+    try {
+      if (dtmfTimer) clearTimeout(dtmfTimer);
+      dtmfTimer = setTimeout(flushDtmfDigits, DTMF_COLLECT_MS);
+    } catch {}
+  }
+
+  async function handleFunctionCall(evt: {
+    call_id?: string;
+    name?: string;
+    arguments?: string;
+  }) {
+    if (!evt.call_id || !evt.name) return;
+    rackyLog(`[tools] model called ${evt.name}`, evt.arguments);
+    live.event("tool_call", { name: evt.name });
+    const output = await runTool(evt.name, evt.arguments || "", {
+      env,
+      channel: "voice",
+      call: { callSid, requestTransfer },
+    });
+    if (!realtimeClient?.isConnected()) return;
+    realtimeClient.send({
+      type: "conversation.item.create",
+      item: {
+        type: "function_call_output",
+        call_id: evt.call_id,
+        output,
+      },
+    });
+    if (transferRequested) transferOutputSent = true;
+    requestResponse();
   }
 
   let initialUserMessageSent = false;
@@ -288,8 +1018,12 @@ export async function createTwilioRealtimeBridge(
       `[timing] Sending initial greeting at +${greetingTime}ms (${timestamp}) with voicemailMode: ${voicemailMode}, callDirection: ${callDirection}`
     );
     const initialMessage = buildInitialCallGreeting({
+      tenant,
       voicemailMode,
       callDirection,
+      resumeReason,
+      language: callLanguage,
+      conference: !!conferenceName,
     });
 
     const initialConversationItem = {
@@ -300,13 +1034,8 @@ export async function createTwilioRealtimeBridge(
         content: [{ type: "input_text", text: initialMessage }],
       },
     } as const;
-    realtimeClient!.realtime.send(
-      "conversation.item.create",
-      initialConversationItem
-    );
-    realtimeClient!.realtime.send("response.create", {
-      type: "response.create",
-    });
+    realtimeClient!.send(initialConversationItem);
+    realtimeClient!.send({ type: "response.create" });
 
     const greetingSentTime = Date.now() - connectionStart;
     greetingSent = true;
@@ -329,7 +1058,8 @@ export async function createTwilioRealtimeBridge(
     markQueue.push("responsePart");
   }
 
-  function handleSpeechStartedEvent() {
+  // speechStartedAt: wall-clock arrival of the caller's speech_started
+  function handleSpeechStartedEvent(speechStartedAt?: number) {
     if (markQueue.length > 0 && responseStartTimestampTwilio != null) {
       const elapsedTime = latestMediaTimestamp - responseStartTimestampTwilio;
       if (SHOW_TIMING_MATH) {
@@ -344,122 +1074,609 @@ export async function createTwilioRealtimeBridge(
           content_index: 0,
           audio_end_ms: elapsedTime,
         } as const;
-        realtimeClient!.realtime.send(
-          "conversation.item.truncate",
-          truncateEvent
-        );
+        realtimeClient!.send(truncateEvent);
+        transcript.assistantTruncated(lastAssistantItem, elapsedTime);
       }
       serverSocket.send(JSON.stringify({ event: "clear", streamSid }));
+      if (speechStartedAt != null) {
+        latency.record("barge_in_clear", Date.now() - speechStartedAt);
+      }
+      if (recordingEnabled) recorder.truncateOutbound(latestMediaTimestamp);
+      live.event("barge_in");
       markQueue = [];
       lastAssistantItem = null;
       responseStartTimestampTwilio = null;
     }
   }
 
-  realtimeClient.realtime.on("server.*", (evt: { type: string }) => {
-    try {
-      if (evt.type && LOG_EVENT_TYPES.includes(evt.type))
-        rackyLog(`Received event from OpenAI: ${evt.type}`);
-      if (
-        (evt as unknown as { type?: string; delta?: string }).type ===
-          "response.audio.delta" &&
-        (evt as unknown as { delta?: string }).delta
-      ) {
-        const { delta } = evt as unknown as { delta: string };
-        const audioDelta = {
-          event: "media",
-          streamSid,
-          media: { payload: delta },
-        } as const;
-        serverSocket.send(JSON.stringify(audioDelta));
-        if (!responseStartTimestampTwilio)
-          responseStartTimestampTwilio = latestMediaTimestamp;
-        const itemId = (evt as unknown as { item_id?: string }).item_id;
-        if (itemId) lastAssistantItem = itemId;
-        sendMark();
-      }
-      if (evt.type === "input_audio_buffer.speech_started") {
-        speechDetected = true;
-        if (!voicemailMode) handleSpeechStartedEvent();
-      }
-      if (voicemailMode && evt.type === "response.done") {
-        // For voicemail we close after audio drains only
-        tryCloseVoicemailAfterDrain();
-      }
-      if (timeLimitClosing && evt.type === "response.done") {
-        // After the final response is generated, wait for audio to drain to Twilio
-        tryCloseTimeLimitAfterDrain();
+  // One subscription per concern; handlers for the same event run in order
+  const realtimeEvents = createRealtimeEventRouter("twilio-bridge");
+
+  realtimeEvents.onAny((evt) => {
+    if (LOG_EVENT_TYPES.includes(evt.type))
+      rackyLog(`Received event from OpenAI: ${evt.type}`);
+  });
+
+  // Audio forwarding: μ-law 8 kHz from here on, whatever the session format
+  realtimeEvents.on("response.audio.delta", (evt) => {
+    if (!evt.delta || bargeActive) return;
+    const delta = audioTranscoder.toTwilio(evt.delta);
+    const audioDelta = {
+      event: "media",
+      streamSid,
+      media: { payload: delta },
+    } as const;
+    serverSocket.send(JSON.stringify(audioDelta));
+    if (!responseStartTimestampTwilio)
+      responseStartTimestampTwilio = latestMediaTimestamp;
+    if (evt.item_id) lastAssistantItem = evt.item_id;
+    transcript.assistantAudio(evt.item_id, delta);
+    if (recordingEnabled) recorder.addOutbound(latestMediaTimestamp, delta);
+    live.audio("assistant", delta);
+    setLiveSpeaker("assistant");
+    sendMark();
+  });
+
+  // Idle detection
+  realtimeEvents.on("input_audio_buffer.speech_started", () => {
+    callerSpeaking = true;
+  });
+  realtimeEvents.on("input_audio_buffer.speech_stopped", () => {
+    callerSpeaking = false;
+    noteActivity(true);
+  });
+  realtimeEvents.on("response.audio.delta", () => noteActivity(false));
+
+  // Barge-in
+  realtimeEvents.on("input_audio_buffer.speech_started", () => {
+    const speechStartedAt = Date.now();
+    speechDetected = true;
+    setLiveSpeaker("caller");
+    if (!voicemailMode) handleSpeechStartedEvent(speechStartedAt);
+  });
+  realtimeEvents.on("input_audio_buffer.speech_stopped", () => {
+    setLiveSpeaker("none");
+  });
+
+  // Transcript
+  realtimeEvents.on("input_audio_buffer.speech_started", (evt) => {
+    transcript.callerSpeechStarted(evt.item_id);
+  });
+  realtimeEvents.on(
+    "conversation.item.input_audio_transcription.completed",
+    (evt) => transcript.callerTranscript(evt.item_id, evt.transcript || "")
+  );
+  realtimeEvents.on("response.audio_transcript.delta", (evt) => {
+    transcript.assistantTranscriptDelta(evt.item_id, evt.delta || "");
+  });
+  realtimeEvents.on("response.audio_transcript.done", (evt) => {
+    transcript.assistantTranscriptDone(evt.item_id, evt.transcript || "");
+  });
+
+  // Language: the first caller turns can override the hint
+  realtimeEvents.on(
+    "conversation.item.input_audio_transcription.completed",
+    (evt) => {
+      if (languageTurnsChecked >= LANGUAGE_DETECT_MAX_TURNS) return;
+      const text = (evt.transcript || "").trim();
+      if (!text) return;
+      languageTurnsChecked++;
+      const detected = detectLanguage(text);
+      if (!detected) return;
+      languageTurnsChecked = LANGUAGE_DETECT_MAX_TURNS;
+      if (detected === callLanguage) return;
+      setCallLanguage(detected, "transcript");
+      const { name } = messagesFor(detected);
+      realtimeClient?.send({
+        type: "conversation.item.create",
+        item: {
+          type: "message",
+          role: "user",
+          content: [
+            {
+              type: "input_text",
+              text: `SYSTEM: The caller is speaking ${name}. Reply in ${name} from now on.`,
+            },
+          ],
+        },
+      });
+    }
+  );
+
+  // Latency metrics
+  realtimeEvents.on("input_audio_buffer.speech_started", () => {
+    speechStoppedAt = null;
+  });
+  realtimeEvents.on("input_audio_buffer.speech_stopped", () => {
+    speechStoppedAt = Date.now();
+  });
+  realtimeEvents.on("response.audio.delta", () => {
+    if (bargeActive) return;
+    const now = Date.now();
+    if (!greetingAudioMeasured && streamStartedAt != null) {
+      greetingAudioMeasured = true;
+      latency.record("start_to_greeting_audio", now - streamStartedAt);
+    }
+    if (speechStoppedAt != null) {
+      latency.record("turn_response", now - speechStoppedAt);
+      speechStoppedAt = null;
+    }
+  });
+
+  // Conference: credit each turn to a participant; reply only when addressed
+  realtimeEvents.on("input_audio_buffer.speech_started", () => {
+    conferenceTurnSpeakers = new Set(conferenceSpeaking);
+  });
+  realtimeEvents.on("input_audio_buffer.speech_stopped", (evt) => {
+    if (!conferenceName || !evt.item_id) return;
+    conferenceItemSpeakers.set(evt.item_id, [...conferenceTurnSpeakers]);
+  });
+  realtimeEvents.on(
+    "conversation.item.input_audio_transcription.completed",
+    (evt) => {
+      if (!conferenceName || !realtimeClient?.isConnected()) return;
+      const text = (evt.transcript || "").trim();
+      if (!text) return;
+      const speakers = (evt.item_id &&
+        conferenceItemSpeakers.get(evt.item_id)) || [
+        lastConferenceSpeaker ?? "an unidentified participant",
+      ];
+      if (evt.item_id) conferenceItemSpeakers.delete(evt.item_id);
+      const who = speakers.join(" and ");
+      realtimeClient.send({
+        type: "conversation.item.create",
+        ...(evt.item_id ? { previous_item_id: evt.item_id } : {}),
+        item: {
+          type: "message",
+          role: "system",
+          content: [
+            { type: "input_text", text: `CONFERENCE: ${who} said that.` },
+          ],
+        },
+      });
+      if (!isAddressedToAssistant(text)) return;
+      rackyLog(`[conference] addressed by ${who}: ${text}`);
+      live.event("conference_addressed", { by: who });
+      requestResponse();
+    }
+  );
+
+  // Voicemail detection on outbound calls
+  realtimeEvents.on("input_audio_buffer.speech_started", () => {
+    voicemailDetector.speechStarted(latestMediaTimestamp);
+  });
+  realtimeEvents.on("input_audio_buffer.speech_stopped", () => {
+    voicemailDetector.speechStopped();
+    // Machine greeting finished; the beep usually follows right away
+    if (voicemailScriptPending) scheduleVoicemailScript(1500);
+  });
+  realtimeEvents.on(
+    "conversation.item.input_audio_transcription.completed",
+    (evt) => {
+      if (callDirection === "outbound" && !voicemailMode) {
+        voicemailDetector.callerTranscript(evt.transcript || "");
       }
-    } catch (error) {
-      rackyError("Error processing OpenAI message (Twilio mode)", error);
     }
+  );
+
+  // Response lifecycle
+  realtimeEvents.on("response.created", () => {
+    responseActive = true;
+    if (transferOutputSent) transferReplyStarted = true;
+    if (voicemailScriptRequested) voicemailScriptPending = false;
   });
+  realtimeEvents.on("response.done", () => {
+    responseActive = false;
+    if (pendingResponseCreate) {
+      pendingResponseCreate = false;
+      requestResponse();
+    }
+  });
+
+  // Tools
+  realtimeEvents.on("response.function_call_arguments.done", (evt) => {
+    ctx.waitUntil(
+      handleFunctionCall(evt).catch((e) =>
+        rackyError("[tools] function call failed", e)
+      )
+    );
+  });
+
+  // Graceful closes: each waits for the audio to drain to Twilio
+  realtimeEvents.on("response.done", () => {
+    if (voicemailMode && !voicemailScriptPending) {
+      tryCloseVoicemailAfterDrain();
+    }
+  });
+  realtimeEvents.on("response.done", () => {
+    if (timeLimitClosing) tryCloseTimeLimitAfterDrain();
+  });
+  realtimeEvents.on("response.done", () => {
+    // Let the "connecting you now" line finish before redirecting the call
+    if (transferRequested && transferReplyStarted) tryTransferAfterDrain();
+  });
+
+  // Events from a client we already replaced (or gave up on) are ignored
+  function createUpstreamClient(): RealtimeBackend {
+    const client = createRealtimeBackend(env);
+    client.onServerEvent((evt) => {
+      if (client === realtimeClient) realtimeEvents.dispatch(evt);
+    });
+    client.onClose((metadata) => {
+      if (client === realtimeClient) handleUpstreamClose(metadata);
+    });
+    return client;
+  }
 
-  (
-    realtimeClient as unknown as { socket?: WebSocket }
-  ).socket?.addEventListener("message", (event: MessageEvent) => {
+  function disconnectUpstream() {
+    upstreamClosedByUs = true;
     try {
-      const raw = typeof event.data === "string" ? event.data : "";
-      if (!raw) return;
-      const response = JSON.parse(raw) as {
-        type?: string;
-        delta?: string;
-        item_id?: string;
-      };
-      if (response.type && LOG_EVENT_TYPES.includes(response.type))
-        rackyLog(`OpenAI ws message: ${response.type}`);
-      if (response.type === "response.audio.delta" && response.delta) {
-        const audioDelta = {
-          event: "media",
-          streamSid,
-          media: { payload: response.delta },
-        } as const;
-        serverSocket.send(JSON.stringify(audioDelta));
-        if (!responseStartTimestampTwilio)
-          responseStartTimestampTwilio = latestMediaTimestamp;
-        if (response.item_id) lastAssistantItem = response.item_id;
-        sendMark();
-      }
-      if (response.type === "input_audio_buffer.speech_started") {
-        speechDetected = true;
-        if (!voicemailMode) handleSpeechStartedEvent();
-      }
-      if (voicemailMode && response.type === "response.done") {
-        tryCloseVoicemailAfterDrain();
-      }
+      realtimeClient?.close();
     } catch {}
-  });
+  }
 
-  realtimeClient.realtime.on("close", (metadata: { error: boolean }) => {
+  function handleUpstreamClose(metadata: { error: boolean }) {
     const closeTime = Date.now() - connectionStart;
+    const callLive =
+      !upstreamClosedByUs &&
+      !alreadyClosed &&
+      !twilioClosed &&
+      !timeLimitClosing;
     rackyLog(
-      `[timing] OpenAI close event received at +${closeTime}ms (error: ${metadata.error}) - closing server-side (Twilio mode)`
+      `[timing] OpenAI close event received at +${closeTime}ms (error: ${metadata.error}, callLive: ${callLive}) (Twilio mode)`
+    );
+    if (!callLive) {
+      closeReason ??= metadata.error ? "upstream_failure" : "upstream_closed";
+      try {
+        serverSocket.close();
+      } catch {}
+      return;
+    }
+    if (upstreamRecovering) return;
+    ctx.waitUntil(
+      recoverUpstream(metadata.error).catch((e) =>
+        rackyError("[upstream] recovery crashed", e)
+      )
     );
+  }
+
+  // Reconnects within the budget; Twilio events wait in twilioQueue meanwhile
+  async function recoverUpstream(wasError: boolean) {
+    upstreamRecovering = true;
+    const startedAt = Date.now();
+    const deadline = startedAt + UPSTREAM_RECONNECT_BUDGET_MS;
+    const responseWasActive = responseActive;
+    live.event("upstream_reconnect", { error: wasError });
+    for (
+      let attempt = 1;
+      attempt <= UPSTREAM_RECONNECT_MAX_ATTEMPTS && Date.now() < deadline;
+      attempt++
+    ) {
+      if (alreadyClosed || twilioClosed) break;
+      rackyLog(
+        `[upstream] reconnect attempt ${attempt}/${UPSTREAM_RECONNECT_MAX_ATTEMPTS} for ${callSid} (+${
+          Date.now() - startedAt
+        }ms)`
+      );
+      const client = createUpstreamClient();
+      realtimeClient = client;
+      let timer: ReturnType<typeof setTimeout> | null = null;
+      try {
+        await Promise.race([
+          client.connect({ model: MODEL }),
+          new Promise((_, reject) => {
+            timer = setTimeout(
+              () => reject(new Error("connect timeout")),
+              Math.max(0, deadline - Date.now())
+            );
+          }),
+        ]);
+        if (timer) clearTimeout(timer);
+        ctx.waitUntil(reportUpstreamResult(env, true));
+        if (alreadyClosed || twilioClosed) {
+          disconnectUpstream();
+          break;
+        }
+        restoreUpstreamSession(responseWasActive);
+        upstreamRecovering = false;
+        rackyLog(
+          `[upstream] reconnected on attempt ${attempt} after ${
+            Date.now() - startedAt
+          }ms`
+        );
+        live.event("upstream_restored", { attempt });
+        return;
+      } catch (e) {
+        if (timer) clearTimeout(timer);
+        rackyError(`[upstream] reconnect attempt ${attempt} failed`, e);
+        ctx.waitUntil(reportUpstreamResult(env, false, String(e)));
+        try {
+          client.close();
+        } catch {}
+        const wait = Math.min(
+          UPSTREAM_RECONNECT_BACKOFF_MS * attempt,
+          deadline - Date.now()
+        );
+        if (wait > 0) await new Promise((r) => setTimeout(r, wait));
+      }
+    }
+    upstreamRecovering = false;
+    realtimeClient = null;
+    // The call ended while we were reconnecting: nothing left to fail
+    if (alreadyClosed || twilioClosed) {
+      rackyLog(`[upstream] call ${callSid} closed during recovery`);
+      return;
+    }
+    await failUpstream();
+  }
+
+  // New session: same settings, condensed history, then the audio we held back
+  function restoreUpstreamSession(responseWasActive: boolean) {
+    responseActive = false;
+    pendingResponseCreate = false;
+    lastAssistantItem = null;
+    responseStartTimestampTwilio = null;
+    initializeSession();
+    if (bargeActive) {
+      realtimeClient!.send({
+        type: "session.update",
+        session: {
+          turn_detection: {
+            type: callConfig.turnDetection,
+            create_response: false,
+          },
+        },
+      });
+    }
+    if (!initialUserMessageSent) {
+      if (startEventProcessed) sendInitialConversationItem();
+      flushTwilioQueue();
+      return;
+    }
+    const items = buildTranscriptReplayItems(transcript.getLines());
+    for (const item of items) {
+      realtimeClient!.send({
+        type: "conversation.item.create",
+        item,
+      });
+    }
+    rackyLog(`[upstream] replayed ${items.length} transcript lines`);
+    realtimeClient!.send({
+      type: "conversation.item.create",
+      item: {
+        type: "message",
+        role: "user",
+        content: [
+          {
+            type: "input_text",
+            text: responseWasActive
+              ? "SYSTEM: The line cut out for a moment while you were speaking. Say sorry in a few words and finish your answer."
+              : "SYSTEM: The line cut out for a moment. Continue the conversation naturally; only ask the caller to repeat if you missed something.",
+          },
+        ],
+      },
+    });
+    flushTwilioQueue();
+    if (responseWasActive && !bargeActive && !voicemailMode) requestResponse();
+  }
+
+  // Recovery failed: apologize, then transfer to staff or hang up
+  async function failUpstream() {
+    closeReason ??= "upstream_failure";
+    live.event("upstream_lost");
+    rackyError(`[upstream] recovery failed for ${callSid}`);
+    if (callSid && !alreadyClosed && !twilioClosed) {
+      alreadyClosed = true;
+      const transfer =
+        UPSTREAM_FAILURE_FALLBACK === "transfer" &&
+        transferTarget &&
+        !voicemailMode;
+      const messages = messagesFor(callLanguage);
+      const twiml = transfer
+        ? await buildTransferTwiml(
+            env,
+            `https://${reqUrl.host}`,
+            transferTarget,
+            callDirection,
+            tenant,
+            tokenClaims,
+            callLanguage,
+            messages.upstreamFailure
+          )
+        : buildTwimlSayHangup(
+            `${messages.upstreamFailure} ${messages.callBackLater}`,
+            messages.sayLanguage
+          );
+      const redirected = await redirectLiveCall(env, callSid, twiml);
+      rackyLog(
+        `[upstream] fallback ${transfer ? "transfer" : "hangup"}: ${
+          redirected ? "ok" : "failed"
+        }`
+      );
+    }
     try {
-      serverSocket.close();
+      serverSocket.close(1011, "Upstream failure");
     } catch {}
-  });
+  }
+
+  function applyCustomParameter(rawKey: string, rawValue: string) {
+    const key = (rawKey || "").toLowerCase();
+    const value = (rawValue || "").toLowerCase();
+    rackyLog(`[twilio] Processing parameter - key: "${key}", value: "${value}"`);
+    if (key === "amd") {
+      const oldVoicemailMode = voicemailMode;
+      voicemailMode =
+        value.includes("machine") ||
+        value === "machine_start" ||
+        value === "machine_end_beep" ||
+        value === "machine_end_silence" ||
+        value === "machine_end_other";
+      rackyLog(
+        `[twilio] AMD parameter detected - value: "${value}", voicemailMode changed from ${oldVoicemailMode} to ${voicemailMode}`
+      );
+    }
+    if (key === "direction") {
+      const oldDirection = callDirection;
+      if (value === "inbound" || value === "outbound") {
+        callDirection = value as typeof callDirection;
+      }
+      rackyLog(
+        `[twilio] Direction parameter detected - value: "${value}", callDirection changed from ${oldDirection} to ${callDirection}`
+      );
+    }
+    if (key === "resume" && value === "transfer_failed") {
+      resumeReason = value;
+    }
+    if (key === "recap" && value === "off") recapOptOut = true;
+    if (key === "record" && recordClaim === undefined) {
+      if (value === "on") recordingEnabled = true;
+      if (value === "off") recordingEnabled = false;
+    }
+    if (key === "lang") {
+      const language = normalizeLanguage(value);
+      if (language) setCallLanguage(language, "parameter");
+    }
+  }
+
+  function maybeSendPostCallRecap(trigger: string) {
+    // Transferred: the caller is still on the line, now with the team
+    if (recapSent || closeReason === "transfer") return;
+    recapSent = true;
+    if (!CALL_RECAP_ENABLED || recapOptOut || voicemailMode) {
+      rackyLog(
+        `[recap] skipped on ${trigger} (optOut: ${recapOptOut}, voicemailMode: ${voicemailMode})`
+      );
+      return;
+    }
+    if (!callerNumber || !callerNumber.startsWith("+")) {
+      rackyLog(`[recap] skipped on ${trigger}, unknown caller number`);
+      return;
+    }
+    // Never text one of our own lines, e.g. a call placed to ourselves
+    if (tenantForNumber(callerNumber)) {
+      rackyLog(`[recap] skipped on ${trigger}, caller is one of our numbers`);
+      return;
+    }
+    ctx.waitUntil(
+      recapLines()
+        .then((lines) =>
+          sendPostCallRecap(env, {
+            tenant,
+            callerE164: callerNumber,
+            lines,
+            language: callLanguage,
+          })
+        )
+        .then(() => {})
+        .catch((e) => rackyError("[recap] failed", e))
+    );
+  }
+
+  // A stream resumed after a failed transfer only holds its own lines; the
+  // earlier streams of the call are in its stored transcript
+  async function recapLines(): Promise<ReadonlyArray<TranscriptLine>> {
+    const lines = transcript.getLines();
+    if (!resumeReason || !callSid) return lines;
+    try {
+      const stored = await readTranscript(env, callSid);
+      const earlier = (stored?.lines ?? []).filter(
+        (l) => l.streamSid !== streamSid
+      );
+      return [...earlier, ...lines];
+    } catch (e) {
+      rackyError("[recap] earlier transcript unavailable", e);
+      return lines;
+    }
+  }
+
+  function saveRecording() {
+    if (recordingSaved || !recordingEnabled || !recorder.hasAudio()) return;
+    recordingSaved = true;
+    // One file per media stream: a call resumed after a failed transfer has two
+    const callKey =
+      [callSid, streamSid].filter(Boolean).join("-") || crypto.randomUUID();
+    const key = `recordings/${new Date().toISOString().slice(0, 10)}/${callKey}.wav`;
+    ctx.waitUntil(
+      (async () => {
+        try {
+          const wav = recorder.encodeWav();
+          const ok = await uploadCallRecording(env, key, wav, {
+            callSid: callSid ?? "",
+            streamSid: streamSid ?? "",
+            direction: callDirection,
+            caller: callerNumber ?? "",
+          });
+          rackyLog(
+            ok
+              ? `[recording] uploaded ${key} (${wav.length} bytes)`
+              : "[recording] no RECORDINGS bucket bound; dropped recording"
+          );
+        } catch (e) {
+          rackyError("[recording] upload failed", e);
+        }
+      })()
+    );
+  }
 
   const twilioQueue: string[] = [];
+  function flushTwilioQueue() {
+    while (twilioQueue.length) {
+      const msg = twilioQueue.shift();
+      if (!msg) continue;
+      try {
+        const eventParsed = JSON.parse(msg) as TwilioEvent;
+        if (isMediaEvent(eventParsed)) {
+          const audioAppend = {
+            type: "input_audio_buffer.append",
+            audio: audioTranscoder.toUpstream(
+              eventParsed.media?.payload ?? ""
+            ),
+          } as const;
+          realtimeClient!.send(audioAppend);
+        }
+      } catch {}
+    }
+  }
+
   serverSocket.addEventListener("message", (event: MessageEvent) => {
     try {
       const raw =
         typeof event.data === "string" ? event.data : event.data.toString();
       const twilioEvent = JSON.parse(raw) as TwilioEvent;
-      if (!realtimeClient?.isConnected()) twilioQueue.push(raw);
+      if (!realtimeClient?.isConnected()) {
+        twilioQueue.push(raw);
+        // Keep the most recent audio if the upstream stays down for a while
+        if (twilioQueue.length > UPSTREAM_QUEUE_MAX) twilioQueue.shift();
+      }
       switch (twilioEvent.event) {
         case "media": {
           if (isMediaEvent(twilioEvent)) {
             latestMediaTimestamp = Number(twilioEvent.media?.timestamp || 0);
+            if (recordingEnabled) {
+              recorder.addInbound(
+                latestMediaTimestamp,
+                twilioEvent.media?.payload
+              );
+            }
+            live.audio("caller", twilioEvent.media?.payload);
+            if (
+              callDirection === "outbound" &&
+              (!voicemailMode || voicemailScriptPending) &&
+              voicemailDetector.isActive()
+            ) {
+              voicemailDetector.processInbound(
+                latestMediaTimestamp,
+                twilioEvent.media?.payload
+              );
+            }
             if (realtimeClient?.isConnected()) {
               const audioAppend = {
                 type: "input_audio_buffer.append",
-                audio: twilioEvent.media?.payload,
+                audio: audioTranscoder.toUpstream(
+                  twilioEvent.media?.payload ?? ""
+                ),
               } as const;
-              realtimeClient.realtime.send(
-                "input_audio_buffer.append",
-                audioAppend
-              );
+              realtimeClient.send(audioAppend);
             }
           }
           break;
@@ -470,6 +1687,21 @@ export async function createTwilioRealtimeBridge(
             rackyLog(`[timing] Start event received at +${startEventTime}ms`);
             
             streamSid = twilioEvent.start?.streamSid ?? null;
+            callSid = twilioEvent.start?.callSid ?? null;
+            transcript.setIds({ callSid, streamSid });
+            if (callSid && !callChannel) {
+              const channelCallSid = callSid;
+              ctx.waitUntil(
+                connectCallChannel(env, channelCallSid, handleCallChannelEvent)
+                  .then((ws) => {
+                    callChannel = ws;
+                    if (ws) live.attach(ws);
+                  })
+                  .catch((e) =>
+                    rackyError("[call-session] channel connect failed", e)
+                  )
+              );
+            }
             const rawCustomParams =
               (twilioEvent.start?.customParameters as unknown) ??
               (twilioEvent.start?.custom_parameters as unknown) ??
@@ -478,34 +1710,10 @@ export async function createTwilioRealtimeBridge(
             try {
               if (Array.isArray(rawCustomParams)) {
                 for (const p of rawCustomParams) {
-                  const key = (
-                    (p?.name ?? p?.key ?? "") as string
-                  ).toLowerCase();
-                  const value = ((p?.value ?? "") as string).toLowerCase();
-                  rackyLog(
-                    `[twilio] Processing parameter - key: "${key}", value: "${value}"`
+                  applyCustomParameter(
+                    (p?.name ?? p?.key ?? "") as string,
+                    (p?.value ?? "") as string
                   );
-                  if (key === "amd") {
-                    const oldVoicemailMode = voicemailMode;
-                    voicemailMode =
-                      value.includes("machine") ||
-                      value === "machine_start" ||
-                      value === "machine_end_beep" ||
-                      value === "machine_end_silence" ||
-                      value === "machine_end_other";
-                    rackyLog(
-                      `[twilio] AMD parameter detected - value: "${value}", voicemailMode changed from ${oldVoicemailMode} to ${voicemailMode}`
-                    );
-                  }
-                  if (key === "direction") {
-                    const oldDirection = callDirection;
-                    if (value === "inbound" || value === "outbound") {
-                      callDirection = value as typeof callDirection;
-                    }
-                    rackyLog(
-                      `[twilio] Direction parameter detected - value: "${value}", callDirection changed from ${oldDirection} to ${callDirection}`
-                    );
-                  }
                 }
               } else if (
                 rawCustomParams &&
@@ -514,38 +1722,28 @@ export async function createTwilioRealtimeBridge(
                 for (const [k, v] of Object.entries(
                   rawCustomParams as Record<string, unknown>
                 )) {
-                  const key = (k || "").toLowerCase();
-                  const value = String(v ?? "").toLowerCase();
-                  rackyLog(
-                    `[twilio] Processing parameter - key: "${key}", value: "${value}"`
-                  );
-                  if (key === "amd") {
-                    const oldVoicemailMode = voicemailMode;
-                    voicemailMode =
-                      value.includes("machine") ||
-                      value === "machine_start" ||
-                      value === "machine_end_beep" ||
-                      value === "machine_end_silence" ||
-                      value === "machine_end_other";
-                    rackyLog(
-                      `[twilio] AMD parameter detected - value: "${value}", voicemailMode changed from ${oldVoicemailMode} to ${voicemailMode}`
-                    );
-                  }
-                  if (key === "direction") {
-                    const oldDirection = callDirection;
-                    if (value === "inbound" || value === "outbound") {
-                      callDirection = value as typeof callDirection;
-                    }
-                    rackyLog(
-                      `[twilio] Direction parameter detected - value: "${value}", callDirection changed from ${oldDirection} to ${callDirection}`
-                    );
-                  }
+                  applyCustomParameter(k, String(v ?? ""));
                 }
               }
             } catch (e) {
               rackyError("[twilio] Failed to process customParameters", e);
             }
             startEventProcessed = true;
+            loadCallerMemory();
+            loadCallerQuota();
+            if (callSid) {
+              live.state({
+                callSid,
+                streamSid,
+                tenant: tenant.id,
+                caller: callerNumber,
+                direction: callDirection,
+                startedAt: new Date().toISOString(),
+                voicemailMode,
+                speaker: "none",
+                status: "active",
+              });
+            }
             rackyLog(
               `[twilio] Start event processed - Direction: ${callDirection}, VoicemailMode: ${voicemailMode}, Sending greeting immediately`
             );
@@ -562,14 +1760,32 @@ export async function createTwilioRealtimeBridge(
           latestMediaTimestamp = 0;
           rackyLog("Incoming Twilio stream has started", streamSid);
           scheduleTimeLimit();
+          streamStartedAt ??= Date.now();
+          noteActivity(true);
+          scheduleIdleCheck(IDLE_CHECK_IN_MS);
+          break;
+        }
+        case "dtmf": {
+          if (isDtmfEvent(twilioEvent)) {
+            const digit = twilioEvent.dtmf?.digit ?? "";
+            rackyLog(`[twilio] DTMF received: ${digit}`);
+            handleDtmfDigit(digit);
+          }
           break;
         }
         case "mark": {
           if (isMarkEvent(twilioEvent)) {
             if (markQueue.length > 0) markQueue.shift();
+            // Playback finished just now, not when the deltas arrived
+            if (markQueue.length === 0) noteActivity(false);
+            // Assistant playback has caught up with what was sent
+            if (markQueue.length === 0 && liveSpeaker === "assistant") {
+              setLiveSpeaker("none");
+            }
             // Check if any pending graceful closures can complete now that audio is drained
             finalizeVoicemailCloseIfDrained();
             finalizeTimeLimitCloseIfDrained();
+            finalizeTransferIfDrained();
           }
           break;
         }
@@ -593,6 +1809,9 @@ export async function createTwilioRealtimeBridge(
               return; // Don't process this stop event
             } else {
               rackyLog(`[timing] Processing STOP event at +${eventTime}ms - this will cause closure`);
+              closeReason ??= "caller_hangup";
+              transcript.flush();
+              maybeSendPostCallRecap("stop");
             }
           }
           break;
@@ -606,15 +1825,58 @@ export async function createTwilioRealtimeBridge(
   serverSocket.addEventListener("close", () => {
     const closeTime = Date.now() - connectionStart;
     rackyLog(`[timing] Twilio client disconnected at +${closeTime}ms`);
+    twilioClosed = true;
+    disconnectUpstream();
     try {
-      if (realtimeClient?.isConnected()) realtimeClient.disconnect();
+      if (timeLimitTimer) clearTimeout(timeLimitTimer);
     } catch {}
     try {
-      if (timeLimitTimer) clearTimeout(timeLimitTimer);
+      if (timeLimitWarningTimer) clearTimeout(timeLimitWarningTimer);
     } catch {}
     try {
       if (timeLimitCloseFallback) clearTimeout(timeLimitCloseFallback);
     } catch {}
+    try {
+      if (transferCloseFallback) clearTimeout(transferCloseFallback);
+    } catch {}
+    try {
+      if (dtmfTimer) clearTimeout(dtmfTimer);
+    } catch {}
+    try {
+      if (idleTimer) clearTimeout(idleTimer);
+    } catch {}
+    try {
+      if (voicemailScriptTimer) clearTimeout(voicemailScriptTimer);
+    } catch {}
+    voicemailDetector.stop();
+    live.detach();
+    try {
+      callChannel?.close(1000, "call_ended");
+    } catch {}
+    if (callSid) {
+      const reason = closeReason ?? "caller_hangup";
+      rackyLog(`[call-log] bridge closed: ${reason}`);
+      ctx.waitUntil(
+        updateCallRecord(env, { callSid, closeReason: reason }).then((record) =>
+          followUpCallResult(env, record)
+        )
+      );
+    }
+    if (callDirection === "inbound" && callerNumber && streamStartedAt) {
+      ctx.waitUntil(
+        recordCallerUsage(env, callerNumber, Date.now() - streamStartedAt)
+      );
+    }
+    transcript.flush();
+    maybeSendPostCallRecap("close");
+    saveRecording();
+    ctx.waitUntil(
+      latency.flush(env, {
+        callSid,
+        direction: callDirection,
+        voice: callConfig.voice,
+      })
+    );
   });
 
   let shouldSendInitialOnConnect = false;
@@ -624,10 +1886,11 @@ export async function createTwilioRealtimeBridge(
       try {
         const connectStartTime = Date.now() - connectionStart;
         rackyLog(`[timing] Connecting to OpenAI (Twilio mode) at +${connectStartTime}ms...`);
-        // @ts-expect-error Waiting on sdk types
         await realtimeClient!.connect({ model: MODEL });
         const connectEndTime = Date.now() - connectionStart;
         rackyLog(`[timing] Connected to OpenAI successfully (Twilio mode) at +${connectEndTime}ms!`);
+        latency.record("ws_to_upstream", connectEndTime);
+        ctx.waitUntil(reportUpstreamResult(env, true));
         initializeSession();
 
         // Send initial conversation item immediately if needed
@@ -639,25 +1902,13 @@ export async function createTwilioRealtimeBridge(
         // Do NOT force the initial greeting before we see the Twilio start event.
         // We need the start event to process custom parameters (including AMD)
         // so the greeting respects voicemail mode.
-        while (twilioQueue.length) {
-          const msg = twilioQueue.shift();
-          if (!msg) continue;
-          try {
-            const eventParsed = JSON.parse(msg) as TwilioEvent;
-            if (isMediaEvent(eventParsed)) {
-              const audioAppend = {
-                type: "input_audio_buffer.append",
-                audio: eventParsed.media?.payload,
-              } as const;
-              realtimeClient!.realtime.send(
-                "input_audio_buffer.append",
-                audioAppend
-              );
-            }
-          } catch {}
-        }
+        flushTwilioQueue();
       } catch (e) {
         rackyError("Error connecting to OpenAI (Twilio mode)", e);
+        ctx.waitUntil(reportUpstreamResult(env, false, String(e)));
+        closeReason ??= "upstream_failure";
+        // Nothing to recover yet; the caller has not heard the assistant
+        alreadyClosed = true;
         try {
           serverSocket.close(1011, "Upstream connect failure");
         } catch {}
@@ -0,0 +1,137 @@
+import {
+  VOICEMAIL_BEEP_MIN_MS,
+  VOICEMAIL_DETECT_WINDOW_MS,
+  VOICEMAIL_LONG_SPEECH_MS,
+} from "../config/config";
+import { decodeMulaw } from "../audio/mulaw";
+import { base64ToBytes } from "../utils/base64";
+
+export type VoicemailSignal = "beep" | "long_greeting" | "transcript";
+
+const SAMPLE_RATE = 8000;
+const FRAME_MS = 20;
+// Answering machine beeps sit roughly between 400 Hz and 2 kHz
+const BEEP_FREQS: ReadonlyArray<number> = Array.from(
+  { length: 33 },
+  (_, i) => 350 + i * 50
+);
+const BEEP_COEFFS = BEEP_FREQS.map(
+  (f) => 2 * Math.cos((2 * Math.PI * f) / SAMPLE_RATE)
+);
+const BEEP_TONALITY_MIN = 0.6; // share of frame energy in one frequency
+const BEEP_MIN_RMS = 500;
+
+const VOICEMAIL_PHRASES =
+  /(leave (me |us )?(a |your )?message|after the (tone|beep)|not available|can'?t (come to|get to|take) the phone|voice ?mail|mailbox|record your message|at the tone)/i;
+
+// Strongest single-frequency share of a frame's energy (1.0 = pure tone)
+function dominantTone(frame: Int16Array): {
+  bin: number;
+  tonality: number;
+  rms: number;
+} {
+  let energy = 0;
+  for (let i = 0; i < frame.length; i++) energy += frame[i] * frame[i];
+  const rms = Math.sqrt(energy / Math.max(1, frame.length));
+  if (energy === 0) return { bin: -1, tonality: 0, rms };
+  let bestBin = -1;
+  let bestPower = 0;
+  for (let b = 0; b < BEEP_COEFFS.length; b++) {
+    const coeff = BEEP_COEFFS[b];
+    let s1 = 0;
+    let s2 = 0;
+    for (let i = 0; i < frame.length; i++) {
+      const s0 = frame[i] + coeff * s1 - s2;
+      s2 = s1;
+      s1 = s0;
+    }
+    const power = s1 * s1 + s2 * s2 - coeff * s1 * s2;
+    if (power > bestPower) {
+      bestPower = power;
+      bestBin = b;
+    }
+  }
+  const tonality = bestPower / ((energy * frame.length) / 2);
+  return { bin: bestBin, tonality, rms };
+}
+
+/**
+ * Watches the first seconds of far-end audio for answering-machine signals:
+ * a long uninterrupted greeting, a beep tone, or voicemail phrases in the
+ * transcript. Fires each signal at most once.
+ */
+export function createVoicemailDetector(
+  onSignal: (signal: VoicemailSignal, detail: string) => void
+) {
+  let stopped = false;
+  let speechStartMs: number | null = null;
+  let toneBin = -1;
+  let toneFrames = 0;
+  const fired = new Set<VoicemailSignal>();
+  let pending = new Int16Array(0);
+
+  function fire(signal: VoicemailSignal, detail: string) {
+    if (stopped || fired.has(signal)) return;
+    fired.add(signal);
+    onSignal(signal, detail);
+  }
+
+  function processFrame(frame: Int16Array, timestampMs: number) {
+    const { bin, tonality, rms } = dominantTone(frame);
+    const isTone = tonality >= BEEP_TONALITY_MIN && rms >= BEEP_MIN_RMS;
+    if (isTone && toneFrames > 0 && Math.abs(bin - toneBin) <= 1) {
+      toneFrames += 1;
+    } else {
+      toneFrames = isTone ? 1 : 0;
+      toneBin = bin;
+    }
+    if (toneFrames * FRAME_MS >= VOICEMAIL_BEEP_MIN_MS) {
+      fire("beep", `${BEEP_FREQS[toneBin]}Hz at ${timestampMs}ms`);
+    }
+  }
+
+  return {
+    processInbound(timestampMs: number, b64Payload: string | undefined) {
+      if (stopped || !b64Payload) return;
+      if (timestampMs > VOICEMAIL_DETECT_WINDOW_MS) {
+        stopped = true;
+        return;
+      }
+      if (
+        speechStartMs != null &&
+        timestampMs - speechStartMs >= VOICEMAIL_LONG_SPEECH_MS
+      ) {
+        fire("long_greeting", `${timestampMs - speechStartMs}ms of speech`);
+      }
+      const samples = decodeMulaw(base64ToBytes(b64Payload));
+      const merged = new Int16Array(pending.length + samples.length);
+      merged.set(pending, 0);
+      merged.set(samples, pending.length);
+      const frameLen = (SAMPLE_RATE / 1000) * FRAME_MS;
+      let offset = 0;
+      for (; offset + frameLen <= merged.length; offset += frameLen) {
+        processFrame(merged.subarray(offset, offset + frameLen), timestampMs);
+      }
+      pending = merged.slice(offset);
+    },
+    speechStarted(timestampMs: number) {
+      speechStartMs = timestampMs;
+    },
+    speechStopped() {
+      speechStartMs = null;
+    },
+    callerTranscript(text: string) {
+      if (stopped) return;
+      const match = VOICEMAIL_PHRASES.exec(text || "");
+      if (match) fire("transcript", `"${match[0]}"`);
+    },
+    stop() {
+      stopped = true;
+    },
+    isActive(): boolean {
+      return !stopped;
+    },
+  };
+}
+
+export type VoicemailDetector = ReturnType<typeof createVoicemailDetector>;
@@ -0,0 +1,101 @@
+import { base64ToBytes } from "../utils/base64";
+import { encodeMulawStereoWav } from "./wav";
+
+const SAMPLES_PER_MS = 8; // 8 kHz μ-law
+const MULAW_SILENCE = 0xff;
+
+type Chunk = { startMs: number; bytes: Uint8Array };
+
+function chunkEndMs(chunk: Chunk): number {
+  return chunk.startMs + chunk.bytes.length / SAMPLES_PER_MS;
+}
+
+function renderTrack(chunks: ReadonlyArray<Chunk>, totalMs: number) {
+  const track = new Uint8Array(Math.ceil(totalMs * SAMPLES_PER_MS));
+  track.fill(MULAW_SILENCE);
+  for (const c of chunks) {
+    const offset = Math.round(c.startMs * SAMPLES_PER_MS);
+    if (offset >= track.length) continue;
+    track.set(c.bytes.subarray(0, track.length - offset), offset);
+  }
+  return track;
+}
+
+/**
+ * Captures both legs of a Twilio media stream on the stream's own clock
+ * (media timestamps, ms since stream start). Left channel is the caller,
+ * right channel is the assistant.
+ */
+export function createCallRecorder(options: { maxMs: number }) {
+  const inbound: Chunk[] = [];
+  let outbound: Chunk[] = [];
+  // Assistant audio arrives faster than real time; Twilio plays it back to back
+  let outboundCursorMs = 0;
+
+  return {
+    addInbound(timestampMs: number, b64Payload: string | undefined) {
+      if (!b64Payload || timestampMs > options.maxMs) return;
+      inbound.push({ startMs: timestampMs, bytes: base64ToBytes(b64Payload) });
+    },
+    addOutbound(nowMs: number, b64Payload: string) {
+      const startMs = Math.max(outboundCursorMs, nowMs);
+      if (startMs > options.maxMs) return;
+      const chunk = { startMs, bytes: base64ToBytes(b64Payload) };
+      outbound.push(chunk);
+      outboundCursorMs = chunkEndMs(chunk);
+    },
+    // Drop assistant audio Twilio never played (mirrors `clear` + truncate)
+    truncateOutbound(atMs: number) {
+      const kept: Chunk[] = [];
+      for (const c of outbound) {
+        if (c.startMs >= atMs) continue;
+        if (chunkEndMs(c) > atMs) {
+          const keep = Math.max(
+            0,
+            Math.floor((atMs - c.startMs) * SAMPLES_PER_MS)
+          );
+          kept.push({ startMs: c.startMs, bytes: c.bytes.subarray(0, keep) });
+        } else {
+          kept.push(c);
+        }
+      }
+      outbound = kept;
+      outboundCursorMs = atMs;
+    },
+    hasAudio(): boolean {
+      return inbound.length > 0 || outbound.length > 0;
+    },
+    encodeWav(): Uint8Array {
+      const lastInbound = inbound.length
+        ? chunkEndMs(inbound[inbound.length - 1])
+        : 0;
+      const lastOutbound = outbound.length
+        ? chunkEndMs(outbound[outbound.length - 1])
+        : 0;
+      const totalMs = Math.min(
+        options.maxMs,
+        Math.max(lastInbound, lastOutbound)
+      );
+      return encodeMulawStereoWav(
+        renderTrack(inbound, totalMs),
+        renderTrack(outbound, totalMs)
+      );
+    },
+  };
+}
+
+export type CallRecorder = ReturnType<typeof createCallRecorder>;
+
+export async function uploadCallRecording(
+  env: { RECORDINGS?: R2Bucket },
+  key: string,
+  wav: Uint8Array,
+  metadata: Record<string, string>
+): Promise<boolean> {
+  if (!env.RECORDINGS) return false;
+  await env.RECORDINGS.put(key, wav, {
+    httpMetadata: { contentType: "audio/wav" },
+    customMetadata: metadata,
+  });
+  return true;
+}
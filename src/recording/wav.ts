@@ -0,0 +1,54 @@
+const WAVE_FORMAT_MULAW = 7;
+const MULAW_SILENCE = 0xff;
+
+function writeAscii(view: DataView, offset: number, text: string) {
+  for (let i = 0; i < text.length; i++) {
+    view.setUint8(offset + i, text.charCodeAt(i));
+  }
+}
+
+/**
+ * Interleaves two 8-bit μ-law channels into a stereo WAV file. The shorter
+ * channel is padded with μ-law silence.
+ */
+export function encodeMulawStereoWav(
+  left: Uint8Array,
+  right: Uint8Array,
+  sampleRate = 8000
+): Uint8Array {
+  const frames = Math.max(left.length, right.length);
+  const channels = 2;
+  const dataSize = frames * channels;
+  // RIFF header + fmt chunk (with cbSize for non-PCM) + fact chunk + data chunk
+  const headerSize = 12 + 26 + 12 + 8;
+  const out = new Uint8Array(headerSize + dataSize);
+  const view = new DataView(out.buffer);
+
+  writeAscii(view, 0, "RIFF");
+  view.setUint32(4, out.length - 8, true);
+  writeAscii(view, 8, "WAVE");
+
+  writeAscii(view, 12, "fmt ");
+  view.setUint32(16, 18, true);
+  view.setUint16(20, WAVE_FORMAT_MULAW, true);
+  view.setUint16(22, channels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * channels, true); // byte rate
+  view.setUint16(32, channels, true); // block align
+  view.setUint16(34, 8, true); // bits per sample
+  view.setUint16(36, 0, true); // cbSize
+
+  writeAscii(view, 38, "fact");
+  view.setUint32(42, 4, true);
+  view.setUint32(46, frames, true);
+
+  writeAscii(view, 50, "data");
+  view.setUint32(54, dataSize, true);
+
+  let o = headerSize;
+  for (let i = 0; i < frames; i++) {
+    out[o++] = i < left.length ? left[i] : MULAW_SILENCE;
+    out[o++] = i < right.length ? right[i] : MULAW_SILENCE;
+  }
+  return out;
+}
@@ -0,0 +1,163 @@
+import type { VoiceName } from "../config/config";
+import type { Language } from "../i18n/catalog";
+import { rackyLog } from "../utils/log";
+
+export type TenantGreetings = {
+  inbound: string;
+  outbound: string;
+  fallback: string;
+  voicemail: string;
+  group: string;
+};
+
+export type Tenant = {
+  id: string;
+  brand: string;
+  // Prefix for Conversations friendly names
+  shortName: string;
+  botIdentity: string;
+  // Voice line and SMS projected address; null for web-only storefronts
+  twilioNumber: string | null;
+  origins: ReadonlyArray<string>;
+  voice: VoiceName;
+  greetings: TenantGreetings;
+  // Greetings in other languages; missing ones come from the message catalog
+  localizedGreetings?: Partial<Record<Language, TenantGreetings>>;
+  // Voice/role/knowledge block shared by the voice, client and SMS prompts
+  persona: string;
+};
+
+const GATEFRAMES_BRAND = "GateFrames.com";
+const GATEFRAMES_INTRO = `Hello, this is the ${GATEFRAMES_BRAND} A.I. assistant.`;
+const GATEFRAMES_INTRO_ES = `Hola, le habla el asistente de inteligencia artificial de ${GATEFRAMES_BRAND}.`;
+
+const gateframes: Tenant = {
+  id: "gateframes",
+  brand: GATEFRAMES_BRAND,
+  shortName: "GF",
+  botIdentity: "gateframes-bot",
+  twilioNumber: "+14082605145", // must be in your Messaging Service sender pool
+  origins: ["https://www.gateframes.com", "https://gateframes.com"],
+  voice: "ash",
+  greetings: {
+    inbound: `${GATEFRAMES_INTRO} Thanks for calling! How can I help you today?`,
+    outbound: `${GATEFRAMES_INTRO} I'm reaching out to chat as a friend and see if you might have any driveway gate related questions.`,
+    fallback: `${GATEFRAMES_INTRO} How can I help?`,
+    voicemail: `${GATEFRAMES_INTRO} Sorry I missed you! If you have any questions about our gates, openers, installations, or anything else, just call me back or shoot me a text and I'll help you right away.`,
+    group: `Hello, this is the GateFrames.com AI assistant. Happy to help here. Mention @ai when you want me to jump in.`,
+  },
+  localizedGreetings: {
+    es: {
+      inbound: `${GATEFRAMES_INTRO_ES} ¡Gracias por llamar! ¿En qué le puedo ayudar hoy?`,
+      outbound: `${GATEFRAMES_INTRO_ES} Le llamo para saludarle y ver si tiene alguna pregunta sobre portones para su entrada.`,
+      fallback: `${GATEFRAMES_INTRO_ES} ¿En qué le puedo ayudar?`,
+      voicemail: `${GATEFRAMES_INTRO_ES} ¡Siento no haberle encontrado! Si tiene preguntas sobre nuestros portones, motores, instalaciones o cualquier otra cosa, devuélvame la llamada o envíeme un mensaje de texto y le ayudo enseguida.`,
+      group: `Hola, soy el asistente de IA de GateFrames.com. Con gusto les ayudo aquí. Mencionen @ai cuando quieran que participe.`,
+    },
+  },
+  persona: `Voice: Be conversational, warm, and relaxed - like talking to a knowledgeable friend who happens to know a lot about gates.
+
+    Role: You're a expert on driveway gates and home improvement who works with "${GATEFRAMES_BRAND}".
+
+    Objective: Have a natural conversation to understand what the customer needs, share helpful info, and guide them to the right "${GATEFRAMES_BRAND}" solution when appropriate.
+
+    Conversational Scope:
+    - You can chat about general topics like weather, how their day is going, home projects, etc.
+    - When ANY business, product, or purchase-related topic comes up, it MUST relate to "${GATEFRAMES_BRAND}" products only
+    - If they ask about non-GateFrames products/services, be friendly but honest: "I'd love to help, but I'm specifically here for gate-related stuff. Speaking of which..."
+
+    Knowledge: ${GATEFRAMES_BRAND} started with a simple idea - make high-quality custom gates and fences, deliver them free across America, and provide DIY guides that actually make sense.
+
+    Guidelines:
+    - Start casual, find out what brought them here
+    - Listen for cues about their actual needs (security? curb appeal? privacy? convenience?)
+    - Ask natural follow-ups: "Is this for a new place or upgrading?" "Got any style in mind?" "How wide we talking?"
+    - Share knowledge conversationally: "Oh yeah, if you've got a slope, sliding gates work great for that"
+    - Be genuinely helpful, not pushy
+    - Match their energy - if they're all business, get to it; if they're chatty, chat back`,
+};
+
+const RICSLIST_BRAND = "RicsList.com";
+const RICSLIST_INTRO = `Hello, this is the ${RICSLIST_BRAND} A.I. assistant.`;
+
+const ricslist: Tenant = {
+  id: "ricslist",
+  brand: RICSLIST_BRAND,
+  shortName: "RL",
+  botIdentity: "ricslist-bot",
+  twilioNumber: null,
+  origins: ["https://www.ricslist.com", "https://ricslist.com"],
+  voice: "sage",
+  greetings: {
+    inbound: `${RICSLIST_INTRO} Thanks for calling! How can I help you today?`,
+    outbound: `${RICSLIST_INTRO} I'm reaching out to see if there's anything I can help you with.`,
+    fallback: `${RICSLIST_INTRO} How can I help?`,
+    voicemail: `${RICSLIST_INTRO} Sorry I missed you! If you have any questions, just call me back or shoot me a text and I'll help you right away.`,
+    group: `Hello, this is the ${RICSLIST_BRAND} AI assistant. Happy to help here. Mention @ai when you want me to jump in.`,
+  },
+  persona: `Voice: Be conversational, warm, and relaxed - like talking to a helpful friend.
+
+    Role: You're the assistant for "${RICSLIST_BRAND}".
+
+    Objective: Understand what the visitor is looking for, answer their questions, and point them to the right part of "${RICSLIST_BRAND}".
+
+    Conversational Scope:
+    - You can chat about general topics like how their day is going
+    - When ANY business, product, or purchase-related topic comes up, it MUST relate to "${RICSLIST_BRAND}" only
+    - Never make up listings, prices, or policies; offer to follow up when you don't know
+
+    Guidelines:
+    - Start casual, find out what brought them here
+    - Be genuinely helpful, not pushy
+    - Match their energy - if they're all business, get to it; if they're chatty, chat back`,
+};
+
+export const TENANTS: ReadonlyArray<Tenant> = [gateframes, ricslist];
+
+export const DEFAULT_TENANT: Tenant = gateframes;
+
+export function getTenant(id: string | null | undefined): Tenant | null {
+  if (!id) return null;
+  return TENANTS.find((t) => t.id === id) ?? null;
+}
+
+export function tenantForNumber(
+  e164: string | null | undefined
+): Tenant | null {
+  if (!e164) return null;
+  return TENANTS.find((t) => t.twilioNumber === e164) ?? null;
+}
+
+export function tenantForOrigin(
+  origin: string | null | undefined
+): Tenant | null {
+  if (!origin) return null;
+  return TENANTS.find((t) => t.origins.includes(origin)) ?? null;
+}
+
+/**
+ * Picks the tenant for a request: an explicit token claim wins, then the
+ * called/projected number, then the client origin, then the default.
+ */
+export function resolveTenant(hints: {
+  tenantId?: string | null;
+  number?: string | null;
+  origin?: string | null;
+}): Tenant {
+  if (hints.tenantId) {
+    const claimed = getTenant(hints.tenantId);
+    if (claimed) return claimed;
+    rackyLog("[tenant] unknown tenant claim", hints.tenantId);
+  }
+  return (
+    tenantForNumber(hints.number) ??
+    tenantForOrigin(hints.origin) ??
+    DEFAULT_TENANT
+  );
+}
+
+// True for any tenant's bot, so one tenant never answers another's messages
+export function isBotIdentity(identity: string | null | undefined): boolean {
+  const id = (identity || "").toLowerCase();
+  return TENANTS.some((t) => t.botIdentity === id);
+}
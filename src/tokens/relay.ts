@@ -1,3 +1,4 @@
+import type { CallConfig } from "../config/callConfig";
 import type { Env } from "../config/env";
 
 function base64ToBytes(b64: string): Uint8Array {
@@ -32,9 +33,30 @@ async function encryptAesGcm(data: Uint8Array, keyBytes: Uint8Array): Promise<Ui
   return result;
 }
 
-export async function generateRelayAuthToken(env: Env, origin: "twilio" | "client"): Promise<string> {
+// Optional per-call settings carried inside the encrypted token
+export type RelayTokenClaims = {
+  record?: boolean;
+  call?: CallConfig;
+  tenant?: string;
+  caller?: string; // the customer's E.164: who called us, or who we called
+  context?: string; // campaign notes about the person being called
+  conference?: string; // Twilio conference the assistant is a participant in
+};
+
+export async function generateRelayAuthToken(
+  env: Env,
+  origin: "twilio" | "client",
+  claims?: RelayTokenClaims,
+  ttlMs = 5 * 60 * 1000
+): Promise<string> {
   const now = Date.now();
-  const payload = { iat: now, exp: now + 5 * 60 * 1000, origin, nonce: crypto.randomUUID() };
+  const payload = {
+    iat: now,
+    exp: now + ttlMs,
+    origin,
+    nonce: crypto.randomUUID(),
+    ...(claims ? { claims } : {}),
+  };
   const jsonBytes = new TextEncoder().encode(JSON.stringify(payload));
   const keyBytes = base64ToBytes(env.ENCRYPTION_KEY);
   const encrypted = await encryptAesGcm(jsonBytes, keyBytes);
@@ -0,0 +1,174 @@
+import type { ToolDefinition } from "./registry";
+
+type GateStyle = "swing" | "double_swing" | "sliding";
+type GateMaterial = "steel" | "aluminum" | "wood";
+
+const GATE_STYLES: ReadonlyArray<GateStyle> = [
+  "swing",
+  "double_swing",
+  "sliding",
+];
+const GATE_MATERIALS: ReadonlyArray<GateMaterial> = [
+  "steel",
+  "aluminum",
+  "wood",
+];
+
+// USD per linear foot of gate width
+const PRICE_PER_FOOT: Record<GateMaterial, number> = {
+  steel: 180,
+  aluminum: 150,
+  wood: 130,
+};
+const STYLE_MULTIPLIER: Record<GateStyle, number> = {
+  swing: 1,
+  double_swing: 1.15,
+  sliding: 1.3,
+};
+const OPENER_PRICE: Record<GateStyle, number> = {
+  swing: 850,
+  double_swing: 1400,
+  sliding: 1100,
+};
+const INSTALL_BASE_PRICE = 900;
+const INSTALL_PER_FOOT = 35;
+const MIN_WIDTH_FT = 4;
+const MAX_WIDTH_FT = 40;
+
+// Zip prefixes our install crews cover; everywhere else is delivery + DIY
+const INSTALL_ZIP_PREFIXES: ReadonlyArray<string> = [
+  "940",
+  "941",
+  "943",
+  "944",
+  "945",
+  "950",
+  "951",
+];
+const INSTALL_LEAD_DAYS = 10;
+const INSTALL_SLOTS_RETURNED = 3;
+
+function roundTo(value: number, step: number): number {
+  return Math.round(value / step) * step;
+}
+
+export const gatePriceEstimateTool: ToolDefinition = {
+  name: "estimate_gate_price",
+  description:
+    "Estimate the price range of a custom driveway gate (free delivery). Use when the customer asks what a gate, opener, or installation would cost.",
+  parameters: {
+    type: "object",
+    properties: {
+      width_ft: { type: "number", description: "Opening width in feet" },
+      style: { type: "string", enum: GATE_STYLES },
+      material: { type: "string", enum: GATE_MATERIALS },
+      with_opener: {
+        type: "boolean",
+        description: "Include an automatic opener",
+      },
+      with_install: {
+        type: "boolean",
+        description: "Include professional installation",
+      },
+    },
+    required: ["width_ft", "style"],
+    additionalProperties: false,
+  },
+  async handler(args) {
+    const width = Number(args.width_ft);
+    if (
+      !Number.isFinite(width) ||
+      width < MIN_WIDTH_FT ||
+      width > MAX_WIDTH_FT
+    ) {
+      return {
+        error: `width_ft must be between ${MIN_WIDTH_FT} and ${MAX_WIDTH_FT}`,
+      };
+    }
+    const style = GATE_STYLES.includes(args.style as GateStyle)
+      ? (args.style as GateStyle)
+      : "swing";
+    const material = GATE_MATERIALS.includes(args.material as GateMaterial)
+      ? (args.material as GateMaterial)
+      : "steel";
+
+    const gate = width * PRICE_PER_FOOT[material] * STYLE_MULTIPLIER[style];
+    const opener = args.with_opener ? OPENER_PRICE[style] : 0;
+    const install = args.with_install
+      ? INSTALL_BASE_PRICE + width * INSTALL_PER_FOOT
+      : 0;
+    const total = gate + opener + install;
+
+    return {
+      currency: "USD",
+      style,
+      material,
+      width_ft: width,
+      low: roundTo(total * 0.9, 50),
+      high: roundTo(total * 1.15, 50),
+      breakdown: {
+        gate: roundTo(gate, 10),
+        opener: roundTo(opener, 10),
+        install: roundTo(install, 10),
+        delivery: 0,
+      },
+      note: "Estimate only; final quote depends on design and site measurements.",
+    };
+  },
+};
+
+export const checkInstallAvailabilityTool: ToolDefinition = {
+  name: "check_install_availability",
+  description:
+    "Check whether professional installation is offered at a US zip code and list the next open install dates.",
+  parameters: {
+    type: "object",
+    properties: {
+      zip: { type: "string", description: "5-digit US zip code" },
+      earliest_date: {
+        type: "string",
+        description: "Earliest acceptable date, YYYY-MM-DD (optional)",
+      },
+    },
+    required: ["zip"],
+    additionalProperties: false,
+  },
+  async handler(args) {
+    const zip = String(args.zip ?? "")
+      .replace(/\D/g, "")
+      .slice(0, 5);
+    if (zip.length !== 5) return { error: "zip must be a 5-digit US zip code" };
+
+    const covered = INSTALL_ZIP_PREFIXES.some((p) => zip.startsWith(p));
+    if (!covered) {
+      return {
+        zip,
+        install_available: false,
+        alternative:
+          "Free delivery with our step-by-step DIY install guides, or a local installer of your choice.",
+      };
+    }
+
+    const leadStart = new Date(
+      Date.now() + INSTALL_LEAD_DAYS * 24 * 60 * 60 * 1000
+    );
+    const requested =
+      typeof args.earliest_date === "string"
+        ? new Date(args.earliest_date)
+        : null;
+    const cursor =
+      requested && !isNaN(requested.getTime()) && requested > leadStart
+        ? requested
+        : leadStart;
+    cursor.setUTCHours(0, 0, 0, 0);
+
+    const slots: string[] = [];
+    while (slots.length < INSTALL_SLOTS_RETURNED) {
+      const day = cursor.getUTCDay();
+      // Crews install Tuesday through Saturday
+      if (day >= 2 && day <= 6) slots.push(cursor.toISOString().slice(0, 10));
+      cursor.setUTCDate(cursor.getUTCDate() + 1);
+    }
+    return { zip, install_available: true, next_available_dates: slots };
+  },
+};
@@ -0,0 +1,131 @@
+import type { Env } from "../config/env";
+import { rackyError, rackyLog } from "../utils/log";
+import { checkInstallAvailabilityTool, gatePriceEstimateTool } from "./gates";
+import { transferToHumanTool } from "./transfer";
+
+export type ToolJsonSchema = {
+  type: "object";
+  properties: Record<string, unknown>;
+  required?: string[];
+  additionalProperties?: boolean;
+};
+
+export type ToolChannel = "voice" | "sms";
+
+// Live-call controls a voice bridge hands to tools
+export type ToolCallControls = {
+  callSid: string | null;
+  requestTransfer: (
+    reason: string
+  ) => { ok: true } | { ok: false; error: string };
+};
+
+export type ToolContext = {
+  env: Env;
+  channel: ToolChannel;
+  call?: ToolCallControls;
+};
+
+export type ToolDefinition = {
+  name: string;
+  description: string;
+  parameters: ToolJsonSchema;
+  channels?: ReadonlyArray<ToolChannel>; // all channels when omitted
+  handler: (
+    args: Record<string, unknown>,
+    ctx: ToolContext
+  ) => Promise<unknown>;
+};
+
+export const TOOLS: ReadonlyArray<ToolDefinition> = [
+  gatePriceEstimateTool,
+  checkInstallAvailabilityTool,
+  transferToHumanTool,
+];
+
+export function toolsForChannel(
+  channel: ToolChannel,
+  tools: ReadonlyArray<ToolDefinition> = TOOLS
+): ToolDefinition[] {
+  return tools.filter((t) => !t.channels || t.channels.includes(channel));
+}
+
+export function getTool(
+  name: string,
+  tools: ReadonlyArray<ToolDefinition> = TOOLS
+): ToolDefinition | null {
+  return tools.find((t) => t.name === name) ?? null;
+}
+
+// Realtime `session.update` format
+export function realtimeToolSpecs(
+  tools: ReadonlyArray<ToolDefinition> = TOOLS
+): Array<{
+  type: "function";
+  name: string;
+  description: string;
+  parameters: ToolJsonSchema;
+}> {
+  return tools.map((t) => ({
+    type: "function",
+    name: t.name,
+    description: t.description,
+    parameters: t.parameters,
+  }));
+}
+
+// Chat Completions format, for the SMS path
+export function chatToolSpecs(
+  tools: ReadonlyArray<ToolDefinition> = TOOLS
+): Array<{
+  type: "function";
+  function: { name: string; description: string; parameters: ToolJsonSchema };
+}> {
+  return tools.map((t) => ({
+    type: "function",
+    function: {
+      name: t.name,
+      description: t.description,
+      parameters: t.parameters,
+    },
+  }));
+}
+
+/**
+ * Runs a tool by name with the raw JSON arguments emitted by the model.
+ * Always resolves to a JSON string so it can be returned as function output.
+ */
+export async function runTool(
+  name: string,
+  rawArgs: string,
+  ctx: ToolContext,
+  tools: ReadonlyArray<ToolDefinition> = TOOLS
+): Promise<string> {
+  const tool = getTool(name, toolsForChannel(ctx.channel, tools));
+  if (!tool) {
+    rackyError("[tools] unknown tool", name);
+    return JSON.stringify({ error: `Unknown tool: ${name}` });
+  }
+  let args: Record<string, unknown> = {};
+  try {
+    const parsed = rawArgs ? JSON.parse(rawArgs) : {};
+    if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) {
+      args = parsed as Record<string, unknown>;
+    }
+  } catch {
+    return JSON.stringify({ error: "Invalid JSON arguments" });
+  }
+  const started = Date.now();
+  try {
+    const result = await tool.handler(args, ctx);
+    rackyLog(
+      `[tools] ${name} (${ctx.channel}) ok in ${Date.now() - started}ms`
+    );
+    return JSON.stringify(result ?? null);
+  } catch (e) {
+    rackyError(`[tools] ${name} failed`, e);
+    return JSON.stringify({
+      error: e instanceof Error ? e.message : "Tool failed",
+    });
+  }
+}
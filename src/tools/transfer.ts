@@ -0,0 +1,37 @@
+import type { ToolDefinition } from "./registry";
+
+export const transferToHumanTool: ToolDefinition = {
+  name: "transfer_to_human",
+  description:
+    "Transfer the live phone call to a human on the team. Use only when the caller asks for a person, or the request clearly needs staff.",
+  channels: ["voice"],
+  parameters: {
+    type: "object",
+    properties: {
+      reason: {
+        type: "string",
+        description: "Short summary of why the caller wants a person",
+      },
+    },
+    required: ["reason"],
+    additionalProperties: false,
+  },
+  async handler(args, ctx) {
+    if (!ctx.call) return { error: "Transfers are only available on calls" };
+    const reason = String(args.reason ?? "").slice(0, 200);
+    const result = ctx.call.requestTransfer(reason);
+    if (!result.ok) {
+      return {
+        status: "unavailable",
+        reason: result.error,
+        instruction:
+          "Apologize that nobody can be reached right now, then offer to keep helping or take a message.",
+      };
+    }
+    return {
+      status: "transferring",
+      instruction:
+        "In one short sentence, tell the caller you are connecting them to someone on the team now. Do not ask any more questions.",
+    };
+  },
+};
@@ -0,0 +1,175 @@
+import type { Env } from "../config/env";
+import { rackyError } from "../utils/log";
+import { appendTranscriptLines, TranscriptLine } from "./store";
+
+const ULAW_BYTES_PER_MS = 8; // 8 kHz, 1 byte per sample
+
+type AssistantTurn = {
+  text: string;
+  startedAt: number;
+  audioBytes: number;
+  done: boolean;
+  audioEndMs: number | null;
+};
+
+function base64DecodedLength(b64: string): number {
+  const padding = b64.endsWith("==") ? 2 : b64.endsWith("=") ? 1 : 0;
+  return Math.floor((b64.length * 3) / 4) - padding;
+}
+
+// Cut the transcript at the same fraction of audio the caller heard, on a word boundary
+export function estimateHeardText(
+  text: string,
+  audioEndMs: number,
+  totalAudioMs: number
+): string {
+  if (totalAudioMs <= 0 || audioEndMs >= totalAudioMs) return text;
+  const ratio = Math.max(0, audioEndMs) / totalAudioMs;
+  const cut = Math.floor(text.length * ratio);
+  const boundary = text.lastIndexOf(" ", cut);
+  return text.slice(0, boundary > 0 ? boundary : cut).trim();
+}
+
+/**
+ * Collects both sides of a phone call from realtime server events and
+ * persists finished lines to the per-call transcript Durable Object.
+ */
+export function createTranscriptCollector(
+  env: Env,
+  ctx: ExecutionContext,
+  options: { onLine?: (line: TranscriptLine) => void } = {}
+) {
+  let callSid: string | null = null;
+  let streamSid: string | null = null;
+  const lines: TranscriptLine[] = [];
+  const unsent: TranscriptLine[] = [];
+  const callerStarts = new Map<string, number>();
+  const assistantTurns = new Map<string, AssistantTurn>();
+
+  function callKey(): string | null {
+    return callSid || streamSid;
+  }
+
+  function persist() {
+    const key = callKey();
+    if (!key || unsent.length === 0) return;
+    const batch = unsent.splice(0, unsent.length).map((l) => ({
+      ...l,
+      callSid,
+      streamSid,
+    }));
+    ctx.waitUntil(
+      appendTranscriptLines(env, key, batch)
+        .then(() => {})
+        .catch((e) => rackyError("[transcript] persist failed", e))
+    );
+  }
+
+  function assistantTurn(itemId: string): AssistantTurn {
+    let turn = assistantTurns.get(itemId);
+    if (!turn) {
+      turn = {
+        text: "",
+        startedAt: Date.now(),
+        audioBytes: 0,
+        done: false,
+        audioEndMs: null,
+      };
+      assistantTurns.set(itemId, turn);
+    }
+    return turn;
+  }
+
+  function buildAssistantLine(itemId: string, turn: AssistantTurn) {
+    const line: TranscriptLine = {
+      role: "assistant",
+      text: turn.text,
+      itemId,
+      callSid,
+      streamSid,
+      startedAt: new Date(turn.startedAt).toISOString(),
+      endedAt: new Date().toISOString(),
+    };
+    if (turn.audioEndMs != null) {
+      line.truncated = true;
+      line.audioEndMs = turn.audioEndMs;
+      line.heardText = estimateHeardText(
+        turn.text,
+        turn.audioEndMs,
+        turn.audioBytes / ULAW_BYTES_PER_MS
+      );
+    }
+    return line;
+  }
+
+  function upsertAssistantLine(itemId: string, turn: AssistantTurn) {
+    const line = buildAssistantLine(itemId, turn);
+    const idx = lines.findIndex(
+      (l) => l.role === "assistant" && l.itemId === itemId
+    );
+    if (idx >= 0) lines[idx] = { ...line, startedAt: lines[idx].startedAt };
+    else lines.push(line);
+    unsent.push(line);
+    persist();
+    options.onLine?.(line);
+  }
+
+  return {
+    setIds(ids: { callSid?: string | null; streamSid?: string | null }) {
+      if (ids.callSid) callSid = ids.callSid;
+      if (ids.streamSid) streamSid = ids.streamSid;
+      persist();
+    },
+    callerSpeechStarted(itemId: string | undefined) {
+      if (itemId) callerStarts.set(itemId, Date.now());
+    },
+    callerTranscript(itemId: string | undefined, transcript: string) {
+      const text = (transcript || "").trim();
+      if (!text) return;
+      const started = (itemId && callerStarts.get(itemId)) || Date.now();
+      if (itemId) callerStarts.delete(itemId);
+      const line: TranscriptLine = {
+        role: "caller",
+        text,
+        itemId: itemId ?? null,
+        callSid,
+        streamSid,
+        startedAt: new Date(started).toISOString(),
+        endedAt: new Date().toISOString(),
+      };
+      lines.push(line);
+      unsent.push(line);
+      persist();
+      options.onLine?.(line);
+    },
+    assistantAudio(itemId: string | undefined, b64Audio: string) {
+      if (!itemId) return;
+      assistantTurn(itemId).audioBytes += base64DecodedLength(b64Audio);
+    },
+    assistantTranscriptDelta(itemId: string | undefined, delta: string) {
+      if (!itemId || !delta) return;
+      assistantTurn(itemId).text += delta;
+    },
+    assistantTranscriptDone(itemId: string | undefined, transcript: string) {
+      if (!itemId) return;
+      const turn = assistantTurn(itemId);
+      if (transcript) turn.text = transcript;
+      turn.done = true;
+      if (turn.text.trim()) upsertAssistantLine(itemId, turn);
+    },
+    // Mirrors the conversation.item.truncate sent on barge-in
+    assistantTruncated(itemId: string, audioEndMs: number) {
+      const turn = assistantTurn(itemId);
+      turn.audioEndMs = audioEndMs;
+      if (turn.done && turn.text.trim()) upsertAssistantLine(itemId, turn);
+    },
+    getLines(): ReadonlyArray<TranscriptLine> {
+      return [...lines].sort((a, b) => a.startedAt.localeCompare(b.startedAt));
+    },
+    flush() {
+      persist();
+    },
+  };
+}
+
+export type TranscriptCollector = ReturnType<typeof createTranscriptCollector>;
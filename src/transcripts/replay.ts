@@ -0,0 +1,45 @@
+import {
+  UPSTREAM_REPLAY_MAX_CHARS,
+  UPSTREAM_REPLAY_MAX_LINES,
+} from "../config/config";
+import type { TranscriptLine } from "./store";
+
+// Realtime conversation.item.create payloads (beta event shape)
+export type ReplayItem = {
+  type: "message";
+  role: "user" | "assistant";
+  content: { type: "input_text" | "text"; text: string }[];
+};
+
+/**
+ * Condenses the call so far into conversation items for a fresh realtime
+ * session: the latest lines only, within a character budget, and for barged
+ * assistant turns just the part the caller heard.
+ */
+export function buildTranscriptReplayItems(
+  lines: ReadonlyArray<TranscriptLine>
+): ReplayItem[] {
+  const items: ReplayItem[] = [];
+  let budget = UPSTREAM_REPLAY_MAX_CHARS;
+  for (const line of [...lines].reverse()) {
+    if (items.length >= UPSTREAM_REPLAY_MAX_LINES || budget <= 0) break;
+    const raw = line.truncated ? (line.heardText ?? line.text) : line.text;
+    const text = raw.trim().slice(0, budget);
+    if (!text) continue;
+    budget -= text.length;
+    items.unshift(
+      line.role === "caller"
+        ? {
+            type: "message",
+            role: "user",
+            content: [{ type: "input_text", text }],
+          }
+        : {
+            type: "message",
+            role: "assistant",
+            content: [{ type: "text", text }],
+          }
+    );
+  }
+  return items;
+}
@@ -0,0 +1,148 @@
+export type TranscriptRole = "caller" | "assistant";
+
+export type TranscriptLine = {
+  role: TranscriptRole;
+  text: string;
+  itemId: string | null;
+  callSid: string | null;
+  streamSid: string | null;
+  startedAt: string; // ISO
+  endedAt: string; // ISO
+  truncated?: boolean;
+  audioEndMs?: number; // where playback was cut, for truncated assistant turns
+  heardText?: string; // approximate portion the caller actually heard
+};
+
+export type TranscriptMeta = {
+  callSid: string | null;
+  streamSid: string | null;
+  createdAt: string;
+  updatedAt: string;
+  lineCount: number;
+};
+
+export type StoredTranscript = {
+  meta: TranscriptMeta;
+  lines: TranscriptLine[];
+};
+
+function lineKey(seq: number): string {
+  return `line:${String(seq).padStart(6, "0")}`;
+}
+
+// Durable Object implementation, one instance per call
+export class CallTranscript {
+  private readonly state: DurableObjectState;
+
+  constructor(state: DurableObjectState, _env: unknown) {
+    this.state = state;
+  }
+
+  async fetch(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+    if (url.pathname === "/append" && request.method === "POST") {
+      let payload: { lines: TranscriptLine[] };
+      try {
+        payload = (await request.json()) as { lines: TranscriptLine[] };
+      } catch {
+        return new Response("Bad Request", { status: 400 });
+      }
+      if (!Array.isArray(payload.lines)) {
+        return new Response("Bad Request", { status: 400 });
+      }
+      await this.append(payload.lines);
+      return new Response(JSON.stringify({ ok: true }), {
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+    if (url.pathname === "/read" && request.method === "GET") {
+      const transcript = await this.read();
+      if (!transcript) return new Response("Not Found", { status: 404 });
+      return new Response(JSON.stringify(transcript), {
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+    return new Response("Not Found", { status: 404 });
+  }
+
+  private async append(lines: TranscriptLine[]): Promise<void> {
+    const now = new Date().toISOString();
+    const meta = (await this.state.storage.get<TranscriptMeta>("meta")) ?? {
+      callSid: null,
+      streamSid: null,
+      createdAt: now,
+      updatedAt: now,
+      lineCount: 0,
+    };
+    for (const line of lines) {
+      meta.callSid ||= line.callSid;
+      meta.streamSid ||= line.streamSid;
+      // Assistant turns are re-sent when truncation info arrives; update in place
+      const existingSeq = line.itemId
+        ? await this.state.storage.get<number>(`item:${line.itemId}`)
+        : undefined;
+      if (existingSeq !== undefined) {
+        const prev = await this.state.storage.get<TranscriptLine>(
+          lineKey(existingSeq)
+        );
+        await this.state.storage.put(lineKey(existingSeq), {
+          ...prev,
+          ...line,
+        });
+        continue;
+      }
+      const seq = meta.lineCount;
+      meta.lineCount += 1;
+      await this.state.storage.put(lineKey(seq), line);
+      if (line.itemId) {
+        await this.state.storage.put(`item:${line.itemId}`, seq);
+      }
+    }
+    meta.updatedAt = now;
+    await this.state.storage.put("meta", meta);
+  }
+
+  private async read(): Promise<StoredTranscript | null> {
+    const meta = await this.state.storage.get<TranscriptMeta>("meta");
+    if (!meta) return null;
+    const entries = await this.state.storage.list<TranscriptLine>({
+      prefix: "line:",
+    });
+    const lines = Array.from(entries.values()).sort((a, b) =>
+      a.startedAt.localeCompare(b.startedAt)
+    );
+    return { meta, lines };
+  }
+}
+
+function transcriptStub(
+  ns: DurableObjectNamespace,
+  callKey: string
+): DurableObjectStub {
+  return ns.get(ns.idFromName(callKey));
+}
+
+export async function appendTranscriptLines(
+  env: { TRANSCRIPTS?: DurableObjectNamespace },
+  callKey: string,
+  lines: TranscriptLine[]
+): Promise<boolean> {
+  const ns = env.TRANSCRIPTS;
+  if (!ns || lines.length === 0) return false;
+  const res = await transcriptStub(ns, callKey).fetch("https://do/append", {
+    method: "POST",
+    body: JSON.stringify({ lines }),
+  });
+  return res.ok;
+}
+
+export async function readTranscript(
+  env: { TRANSCRIPTS?: DurableObjectNamespace },
+  callKey: string
+): Promise<StoredTranscript | null> {
+  const ns = env.TRANSCRIPTS;
+  if (!ns) return null;
+  const res = await transcriptStub(ns, callKey).fetch("https://do/read");
+  if (!res.ok) return null;
+  return (await res.json()) as StoredTranscript;
+}
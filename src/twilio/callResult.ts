@@ -0,0 +1,112 @@
+import {
+  CallRecord,
+  FINAL_CALL_STATUSES,
+  updateCallRecord,
+} from "../calls/records";
+import type { Env } from "../config/env";
+import {
+  CallOutcome,
+  DEFAULT_LANGUAGE,
+  Language,
+  messagesFor,
+} from "../i18n/catalog";
+import { DEFAULT_TENANT, getTenant } from "../tenants/registry";
+import { rackyError, rackyLog } from "../utils/log";
+import { twilioPost } from "./helpers";
+
+function formatDuration(totalSec: number): string {
+  const min = Math.floor(totalSec / 60);
+  const sec = totalSec % 60;
+  return min > 0 ? `${min}m ${sec}s` : `${sec}s`;
+}
+
+function callOutcome(record: CallRecord): CallOutcome {
+  const answeredBy = record.answeredBy || "";
+  switch (record.status) {
+    case "completed":
+      if (record.closeReason === "voicemail_complete") return "voicemailLeft";
+      if (answeredBy.startsWith("machine") || answeredBy === "fax") {
+        return "reachedVoicemail";
+      }
+      if (record.closeReason === "transfer") return "transferred";
+      return "answered";
+    case "busy":
+      return "busy";
+    case "no-answer":
+      return "noAnswer";
+    case "canceled":
+      return "canceled";
+    default:
+      return "failed";
+  }
+}
+
+export function describeCallResult(
+  record: CallRecord,
+  language: Language = DEFAULT_LANGUAGE
+): string {
+  const text = messagesFor(language).callOutcomes[callOutcome(record)];
+  // Only answered calls have a talk time worth reporting
+  return record.status === "completed" && record.durationSec != null
+    ? `${text} (${formatDuration(record.durationSec)})`
+    : text;
+}
+
+/**
+ * Follows up the "Calling X now!" ack in the thread that asked for the call
+ * once Twilio reports how it ended.
+ */
+export async function sendCallResultFollowUp(
+  env: Env,
+  record: CallRecord
+): Promise<boolean> {
+  if (!record.notifyConversationSid) return false;
+  const tenant = getTenant(record.tenant) ?? DEFAULT_TENANT;
+  const language = record.notifyLanguage ?? DEFAULT_LANGUAGE;
+  const body = messagesFor(language).smsCallResult(
+    record.to || null,
+    describeCallResult(record, language)
+  );
+  try {
+    const res = await twilioPost(
+      env,
+      `/Conversations/${record.notifyConversationSid}/Messages`,
+      new URLSearchParams({ Author: tenant.botIdentity, Body: body })
+    );
+    if (!res.ok) {
+      rackyError("[call-result] failed to post follow-up", await res.text());
+      return false;
+    }
+    rackyLog("[call-result] sent", { callSid: record.callSid, body });
+    return true;
+  } catch (e) {
+    rackyError("[call-result] follow-up error", record.callSid, e);
+    return false;
+  }
+}
+
+/**
+ * Sends the follow-up once the call has a final status and, when it was
+ * answered, the bridge's close reason. The status callback and the bridge's
+ * close both call this, since either can land last; stamping notifiedAt first
+ * makes sure only one of them sends. `force` skips waiting for the close
+ * reason (answered calls that never reached the bridge).
+ */
+export async function followUpCallResult(
+  env: Env,
+  record: CallRecord | null,
+  options: { force?: boolean } = {}
+): Promise<void> {
+  if (!record?.notifyConversationSid || record.notifiedAt) return;
+  if (!FINAL_CALL_STATUSES.includes(record.status)) return;
+  if (record.status === "completed" && !record.closeReason && !options.force) {
+    return;
+  }
+  const notifiedAt = new Date().toISOString();
+  const claimed = await updateCallRecord(env, {
+    callSid: record.callSid,
+    notifiedAt,
+  });
+  if (claimed?.notifiedAt !== notifiedAt) return;
+  await sendCallResultFollowUp(env, claimed);
+}
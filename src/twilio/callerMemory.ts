@@ -0,0 +1,76 @@
+import {
+  CALLER_MEMORY_MAX_CHARS,
+  CALLER_MEMORY_MAX_MESSAGES,
+  CALLER_MEMORY_MESSAGE_MAX_CHARS,
+} from "../config/config";
+import type { Env } from "../config/env";
+import type { Tenant } from "../tenants/registry";
+import { rackyError, rackyLog } from "../utils/log";
+import {
+  fetchConversationHistoryAsUiMessages,
+  findDirectConversation,
+  UiMessage,
+} from "./helpers";
+
+export function condenseSmsHistory(
+  messages: ReadonlyArray<UiMessage>,
+  maxChars: number
+): string {
+  const rendered: string[] = [];
+  for (const m of messages) {
+    if (m.role === "system") continue;
+    let text = m.parts
+      .map((p) => p.text)
+      .join(" ")
+      .replace(/\s+/g, " ")
+      .trim();
+    if (!text) continue;
+    if (text.length > CALLER_MEMORY_MESSAGE_MAX_CHARS) {
+      text = `${text.slice(0, CALLER_MEMORY_MESSAGE_MAX_CHARS)}…`;
+    }
+    rendered.push(`${m.role === "user" ? "Caller" : "You"}: ${text}`);
+  }
+  // Newest messages matter most; drop from the start to fit the budget
+  let out = "";
+  for (let i = rendered.length - 1; i >= 0; i--) {
+    const next = `${rendered[i]}\n${out}`;
+    if (next.length > maxChars) break;
+    out = next;
+  }
+  return out.trim();
+}
+
+/**
+ * Recent messages from the caller's 1:1 SMS thread with this tenant,
+ * condensed for the realtime instructions. Group threads are never read.
+ */
+export async function loadCallerSmsMemory(
+  env: Env,
+  callerE164: string,
+  tenant: Tenant
+): Promise<string | null> {
+  if (!callerE164.startsWith("+")) return null;
+  try {
+    const conversationSid = await findDirectConversation(
+      env,
+      callerE164,
+      tenant
+    );
+    if (!conversationSid) return null;
+    const history = await fetchConversationHistoryAsUiMessages(
+      env,
+      conversationSid,
+      { isGroup: false, limit: CALLER_MEMORY_MAX_MESSAGES }
+    );
+    const memory = condenseSmsHistory(history, CALLER_MEMORY_MAX_CHARS);
+    rackyLog("[caller-memory] loaded", {
+      conversationSid,
+      messages: history.length,
+      chars: memory.length,
+    });
+    return memory || null;
+  } catch (e) {
+    rackyError("[caller-memory] load failed", callerE164, e);
+    return null;
+  }
+}
@@ -1,11 +1,12 @@
-import {
-  BOT_IDENTITY,
-  PROJECTED_ADDRESS,
-  TWILIO_API_BASE,
-  TWILIO_CONV_BASE
-} from "../config/config";
+import { TWILIO_API_BASE, TWILIO_CONV_BASE } from "../config/config";
 import type { Env } from "../config/env";
 import { groupGreetingPrompt } from "../prompts/chat";
+import {
+  DEFAULT_TENANT,
+  isBotIdentity,
+  Tenant,
+  tenantForNumber,
+} from "../tenants/registry";
 import { rackyError, rackyLog } from "../utils/log";
 
 export function twilioAuthHeader(env: Env): string {
@@ -39,25 +40,81 @@ export async function twilioPost(
   });
 }
 
-export async function ensureBotParticipant(
+export type ConversationParticipant = {
+  identity?: string | null;
+  messaging_binding?: {
+    address?: string | null;
+    proxy_address?: string | null;
+    projected_address?: string | null;
+  } | null;
+};
+
+export async function fetchConversationParticipants(
   env: Env,
   conversationSid: string
-): Promise<void> {
+): Promise<ConversationParticipant[]> {
   try {
     const res = await twilioGet(
       env,
       `/Conversations/${conversationSid}/Participants`
     );
     const data = (await res.json()) as {
-      participants?: Array<{ identity?: string }>;
+      participants?: ConversationParticipant[];
     };
-    const exists = (data.participants || []).some(
-      (p) => (p.identity || "").toLowerCase() === BOT_IDENTITY
+    return data.participants || [];
+  } catch (e) {
+    rackyError("[convo] failed to load participants", conversationSid, e);
+    return [];
+  }
+}
+
+export function countHumanParticipants(
+  participants: ReadonlyArray<ConversationParticipant>
+): number {
+  return participants.filter((p) => {
+    const identity = (p.identity || "").toLowerCase();
+    return identity !== "system" && !isBotIdentity(identity);
+  }).length;
+}
+
+/**
+ * The tenant a thread belongs to: whichever of our numbers the SMS
+ * participants talk through, else whichever tenant's bot already joined.
+ */
+export function tenantForParticipants(
+  participants: ReadonlyArray<ConversationParticipant>
+): Tenant {
+  for (const p of participants) {
+    const binding = p.messaging_binding;
+    const tenant =
+      tenantForNumber(binding?.proxy_address) ??
+      tenantForNumber(binding?.projected_address);
+    if (tenant) return tenant;
+  }
+  return DEFAULT_TENANT;
+}
+
+export async function ensureBotParticipant(
+  env: Env,
+  conversationSid: string,
+  tenant: Tenant
+): Promise<void> {
+  try {
+    const participants = await fetchConversationParticipants(
+      env,
+      conversationSid
+    );
+    const exists = participants.some(
+      (p) => (p.identity || "").toLowerCase() === tenant.botIdentity
     );
     if (!exists) {
+      if (!tenant.twilioNumber) {
+        rackyError("[bot] tenant has no Twilio number", tenant.id);
+        return;
+      }
       const body = new URLSearchParams({
-        Identity: BOT_IDENTITY,
-        "MessagingBinding.ProjectedAddress": PROJECTED_ADDRESS,
+        Identity: tenant.botIdentity,
+        "MessagingBinding.ProjectedAddress": tenant.twilioNumber,
       });
       const addRes = await twilioPost(
         env,
@@ -121,7 +178,13 @@ export async function placeOutboundCalls(
   env: Env,
   e164Targets: string[],
   voiceUrl: string,
-  voicemailMode: boolean = false
+  voicemailMode: boolean = false,
+  options: {
+    from: string;
+    amdCallbackUrl?: string;
+    statusCallbackUrl?: string;
+    sendDigits?: string; // keyed in once the call connects
+  }
 ): Promise<string[]> {
   // NOTE VOICEMAILS WORK WITHOUT THIS BECAUSE AI IS SMART ENOUGH TO HANDLE VOICEMAILS
   // Twilio AMD voicemailMode causes 5-8sec delay after call is answered which is unacceptable...
@@ -137,7 +200,7 @@ export async function placeOutboundCalls(
     try {
       const params: Record<string, string> = {
         To: e164,
-        From: PROJECTED_ADDRESS,
+        From: options.from,
         Url: voiceUrl,
         Method: "GET",
       };
@@ -145,12 +208,32 @@ export async function placeOutboundCalls(
       if (voicemailMode) {
         params.MachineDetection = "Enable";
       }
+      if (options.sendDigits) params.SendDigits = options.sendDigits;
+      // Async AMD answers immediately and reports the result to the callback
+      if (options.amdCallbackUrl) {
+        params.MachineDetection = "DetectMessageEnd";
+        params.AsyncAmd = "true";
+        params.AsyncAmdStatusCallback = options.amdCallbackUrl;
+        params.AsyncAmdStatusCallbackMethod = "POST";
+      }
 
       const body = new URLSearchParams(params);
+      // Lifecycle updates (no-answer, busy, duration) go to /twilio/status
+      if (options.statusCallbackUrl) {
+        body.set("StatusCallback", options.statusCallbackUrl);
+        body.set("StatusCallbackMethod", "POST");
+        for (const evt of ["initiated", "ringing", "answered", "completed"]) {
+          body.append("StatusCallbackEvent", evt);
+        }
+      }
 
       rackyLog(
         `[outbound] Calling ${e164} with AMD: ${
-          !voicemailMode ? "DISABLED" : "ENABLED"
+          options.amdCallbackUrl
+            ? "ASYNC"
+            : !voicemailMode
+            ? "DISABLED"
+            : "ENABLED"
         }`
       );
 
@@ -178,9 +261,156 @@ export async function placeOutboundCalls(
   return callSids;
 }
 
+export async function updateLiveCall(
+  env: Env,
+  callSid: string,
+  params: Record<string, string>
+): Promise<boolean> {
+  try {
+    const res = await fetch(
+      `${TWILIO_API_BASE}/Accounts/${env.TWILIO_ACCOUNT_SID}/Calls/${callSid}.json`,
+      {
+        method: "POST",
+        headers: {
+          Authorization: twilioAuthHeader(env),
+          "Content-Type": "application/x-www-form-urlencoded",
+        },
+        body: new URLSearchParams(params),
+      }
+    );
+    if (!res.ok) {
+      rackyError("[calls] failed to update call", callSid, await res.text());
+      return false;
+    }
+    return true;
+  } catch (e) {
+    rackyError("[calls] update call error", callSid, e);
+    return false;
+  }
+}
+
+export async function redirectLiveCall(
+  env: Env,
+  callSid: string,
+  twiml: string
+): Promise<boolean> {
+  return updateLiveCall(env, callSid, { Twiml: twiml });
+}
+
+/**
+ * Dials a number into a conference (created on first use) through the
+ * Participants API. Returns the new leg's CallSid, or null if Twilio refused.
+ */
+export async function addConferenceParticipant(
+  env: Env,
+  conferenceName: string,
+  options: {
+    from: string;
+    to: string;
+    label: string;
+    conferenceStatusCallbackUrl: string;
+    statusCallbackUrl?: string;
+  }
+): Promise<string | null> {
+  const body = new URLSearchParams({
+    From: options.from,
+    To: options.to,
+    Label: options.label,
+    StartConferenceOnEnter: "true",
+    EndConferenceOnExit: "false",
+    Beep: "onEnter",
+    ConferenceStatusCallback: options.conferenceStatusCallbackUrl,
+    ConferenceStatusCallbackMethod: "POST",
+  });
+  for (const evt of ["start", "end", "join", "leave", "speaker"]) {
+    body.append("ConferenceStatusCallbackEvent", evt);
+  }
+  if (options.statusCallbackUrl) {
+    body.set("StatusCallback", options.statusCallbackUrl);
+    body.set("StatusCallbackMethod", "POST");
+    for (const evt of ["initiated", "ringing", "answered", "completed"]) {
+      body.append("StatusCallbackEvent", evt);
+    }
+  }
+  try {
+    const res = await fetch(
+      `${TWILIO_API_BASE}/Accounts/${
+        env.TWILIO_ACCOUNT_SID
+      }/Conferences/${encodeURIComponent(conferenceName)}/Participants.json`,
+      {
+        method: "POST",
+        headers: {
+          Authorization: twilioAuthHeader(env),
+          "Content-Type": "application/x-www-form-urlencoded",
+        },
+        body,
+      }
+    );
+    if (!res.ok) {
+      rackyError("[conference] failed to add participant", await res.text());
+      return null;
+    }
+    const json = (await res.json()) as { call_sid?: string };
+    return json.call_sid ?? null;
+  } catch (e) {
+    rackyError("[conference] add participant error", options.to, e);
+    return null;
+  }
+}
+
+// Ends the conference for everyone still in it
+export async function endConference(
+  env: Env,
+  conferenceSid: string
+): Promise<boolean> {
+  try {
+    const res = await fetch(
+      `${TWILIO_API_BASE}/Accounts/${env.TWILIO_ACCOUNT_SID}/Conferences/${conferenceSid}.json`,
+      {
+        method: "POST",
+        headers: {
+          Authorization: twilioAuthHeader(env),
+          "Content-Type": "application/x-www-form-urlencoded",
+        },
+        body: new URLSearchParams({ Status: "completed" }),
+      }
+    );
+    if (!res.ok) {
+      rackyError("[conference] failed to end", conferenceSid, await res.text());
+      return false;
+    }
+    return true;
+  } catch (e) {
+    rackyError("[conference] end error", conferenceSid, e);
+    return false;
+  }
+}
+
+export type TransferTarget =
+  | { kind: "number"; number: string }
+  | { kind: "queue"; name: string };
+
+export function parseTransferTarget(
+  raw: string | undefined | null
+): TransferTarget | null {
+  const value = (raw || "").trim();
+  if (!value) return null;
+  if (value.toLowerCase().startsWith("queue:")) {
+    const name = value.slice(6).trim();
+    return name ? { kind: "queue", name } : null;
+  }
+  if (value.startsWith("+")) {
+    const digits = value.replace(/\D/g, "");
+    return digits.length >= 8 ? { kind: "number", number: `+${digits}` } : null;
+  }
+  const us = sanitizeUsNumber(value);
+  return us ? { kind: "number", number: `+1${us}` } : null;
+}
+
 export async function createConversationWithParticipants(
   env: Env,
   addressesE164: string[],
+  tenant: Tenant,
   friendlyName?: string
 ): Promise<string | null> {
   try {
@@ -205,13 +435,13 @@ export async function createConversationWithParticipants(
         new URLSearchParams({ "MessagingBinding.Address": e164 })
       ).catch(() => {});
     }
-    await ensureBotParticipant(env, ch);
+    await ensureBotParticipant(env, ch, tenant);
     await twilioPost(
       env,
       `/Conversations/${ch}/Messages`,
       new URLSearchParams({
-        Author: BOT_IDENTITY,
-        Body: groupGreetingPrompt(),
+        Author: tenant.botIdentity,
+        Body: groupGreetingPrompt(tenant),
       })
     );
     return ch;
@@ -220,6 +450,84 @@ export async function createConversationWithParticipants(
   }
 }
 
+/**
+ * Finds the caller's active 1:1 SMS thread with the tenant's number (never a
+ * group), if one exists.
+ */
+export async function findDirectConversation(
+  env: Env,
+  addressE164: string,
+  tenant: Tenant
+): Promise<string | null> {
+  try {
+    const res = await twilioGet(
+      env,
+      `/ParticipantConversations?Address=${encodeURIComponent(addressE164)}`
+    );
+    if (!res.ok) return null;
+    const json = (await res.json()) as {
+      conversations?: Array<{
+        conversation_sid?: string;
+        conversation_state?: string;
+        participant_messaging_binding?: { proxy_address?: string } | null;
+      }>;
+    };
+    for (const c of json.conversations || []) {
+      if (!c.conversation_sid || c.conversation_state === "closed") continue;
+      const proxy = c.participant_messaging_binding?.proxy_address;
+      if (proxy && proxy !== tenant.twilioNumber) continue;
+      const participants = await fetchConversationParticipants(
+        env,
+        c.conversation_sid
+      );
+      if (countHumanParticipants(participants) <= 1) return c.conversation_sid;
+    }
+    return null;
+  } catch (e) {
+    rackyError("[convo] find direct conversation failed", addressE164, e);
+    return null;
+  }
+}
+
+export async function findOrCreateDirectConversation(
+  env: Env,
+  addressE164: string,
+  tenant: Tenant
+): Promise<string | null> {
+  const existing = await findDirectConversation(env, addressE164, tenant);
+  if (existing) return existing;
+  if (!tenant.twilioNumber) return null;
+  try {
+    const convRes = await twilioPost(
+      env,
+      "/Conversations",
+      new URLSearchParams({
+        FriendlyName: `${tenant.shortName} ${addressE164}`,
+      })
+    );
+    if (!convRes.ok) return null;
+    const conv = (await convRes.json()) as { sid?: string };
+    if (!conv.sid) return null;
+    const partRes = await twilioPost(
+      env,
+      `/Conversations/${conv.sid}/Participants`,
+      new URLSearchParams({
+        "MessagingBinding.Address": addressE164,
+        "MessagingBinding.ProxyAddress": tenant.twilioNumber,
+      })
+    );
+    if (!partRes.ok) {
+      rackyError("[convo] failed to add SMS participant", await partRes.text());
+      return null;
+    }
+    await ensureBotParticipant(env, conv.sid, tenant);
+    return conv.sid;
+  } catch (e) {
+    rackyError("[convo] create direct conversation failed", addressE164, e);
+    return null;
+  }
+}
+
 export type UiMessageRole = "system" | "user" | "assistant";
 export type UiMessagePartText = { type: "text"; text: string };
 export type UiMessage = {
@@ -252,7 +560,7 @@ export function mapTwilioToUiMessage(
   if (!textRaw) return null;
   const author = (msg.author || "").toLowerCase();
   let role: UiMessageRole = "user";
-  if (author === BOT_IDENTITY) role = "assistant";
+  if (isBotIdentity(author)) role = "assistant";
   else if (author === "system") role = "system";
   const base =
     opts.isGroup && role === "user" ? cleanseGroupMentions(textRaw) : textRaw;
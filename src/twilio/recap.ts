@@ -0,0 +1,97 @@
+import {
+  CALL_RECAP_MAX_TRANSCRIPT_CHARS,
+  CALL_RECAP_MIN_CALLER_TURNS,
+} from "../config/config";
+import type { Env } from "../config/env";
+import type { Language } from "../i18n/catalog";
+import { generateTextDirect } from "../openai/text";
+import { callRecapPrompt } from "../prompts/chat";
+import type { Tenant } from "../tenants/registry";
+import type { TranscriptLine } from "../transcripts/store";
+import { rackyError, rackyLog } from "../utils/log";
+import { findOrCreateDirectConversation, twilioPost } from "./helpers";
+
+export function formatTranscriptForPrompt(
+  lines: ReadonlyArray<TranscriptLine>,
+  maxChars: number
+): string {
+  const rendered = lines.map((l) => {
+    const text = l.truncated ? (l.heardText ?? l.text) : l.text;
+    return `${l.role === "caller" ? "Caller" : "Assistant"}: ${text}`;
+  });
+  // Keep the end of long calls; next steps are usually agreed last
+  let out = "";
+  for (let i = rendered.length - 1; i >= 0; i--) {
+    const next = `${rendered[i]}\n${out}`;
+    if (next.length > maxChars) break;
+    out = next;
+  }
+  return out.trim();
+}
+
+/**
+ * Texts the caller a short summary of the call through their 1:1
+ * Conversations thread, so the SMS bot keeps the context afterwards.
+ */
+export async function sendPostCallRecap(
+  env: Env,
+  options: {
+    tenant: Tenant;
+    callerE164: string;
+    lines: ReadonlyArray<TranscriptLine>;
+    language?: Language;
+  }
+): Promise<boolean> {
+  const callerTurns = options.lines.filter((l) => l.role === "caller").length;
+  if (callerTurns < CALL_RECAP_MIN_CALLER_TURNS) {
+    rackyLog("[recap] skipped, not enough caller turns", callerTurns);
+    return false;
+  }
+  const transcriptText = formatTranscriptForPrompt(
+    options.lines,
+    CALL_RECAP_MAX_TRANSCRIPT_CHARS
+  );
+  if (!transcriptText) return false;
+
+  let recap: string;
+  try {
+    recap = await generateTextDirect(
+      env,
+      [
+        {
+          id: crypto.randomUUID(),
+          role: "user",
+          parts: [
+            { type: "text", text: `Call transcript:\n${transcriptText}` },
+          ],
+        },
+      ],
+      callRecapPrompt(options.tenant, options.language),
+      { throwOnError: true }
+    );
+  } catch (e) {
+    rackyError("[recap] generation failed", e);
+    return false;
+  }
+
+  const conversationSid = await findOrCreateDirectConversation(
+    env,
+    options.callerE164,
+    options.tenant
+  );
+  if (!conversationSid) return false;
+  const res = await twilioPost(
+    env,
+    `/Conversations/${conversationSid}/Messages`,
+    new URLSearchParams({
+      Author: options.tenant.botIdentity,
+      Body: recap.trim(),
+    })
+  );
+  if (!res.ok) {
+    rackyError("[recap] failed to post message", await res.text());
+    return false;
+  }
+  rackyLog("[recap] sent", { conversationSid, caller: options.callerE164 });
+  return true;
+}
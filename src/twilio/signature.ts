@@ -0,0 +1,60 @@
+import type { Env } from "../config/env";
+import { timingSafeEqualStrings } from "../utils/auth";
+import { bytesToBase64 } from "../utils/base64";
+import { rackyLog } from "../utils/log";
+
+// The string Twilio signs: the full URL, then each POST param as key + value,
+// sorted by key
+async function signedPayload(request: Request): Promise<string> {
+  let payload = request.url;
+  const contentType = request.headers.get("Content-Type") || "";
+  if (
+    request.method === "POST" &&
+    contentType.includes("application/x-www-form-urlencoded")
+  ) {
+    const form = new URLSearchParams(await request.clone().text());
+    const pairs = [...form.entries()].sort(([a, av], [b, bv]) =>
+      a === b ? (av < bv ? -1 : av > bv ? 1 : 0) : a < b ? -1 : 1
+    );
+    for (const [key, value] of pairs) payload += key + value;
+  }
+  return payload;
+}
+
+/**
+ * True when `X-Twilio-Signature` matches the request: HMAC-SHA1 of the signed
+ * payload keyed with the account's auth token, base64-encoded. The body is
+ * read from a clone so handlers can still parse it.
+ */
+export async function validateTwilioSignature(
+  request: Request,
+  env: Env
+): Promise<boolean> {
+  const signature = request.headers.get("X-Twilio-Signature");
+  if (!signature) return false;
+  if (!env.TWILIO_AUTH_TOKEN) {
+    rackyLog("[twilio] missing TWILIO_AUTH_TOKEN");
+    return false;
+  }
+  try {
+    const key = await crypto.subtle.importKey(
+      "raw",
+      new TextEncoder().encode(env.TWILIO_AUTH_TOKEN),
+      { name: "HMAC", hash: "SHA-1" },
+      false,
+      ["sign"]
+    );
+    const mac = await crypto.subtle.sign(
+      "HMAC",
+      key,
+      new TextEncoder().encode(await signedPayload(request))
+    );
+    return timingSafeEqualStrings(
+      bytesToBase64(new Uint8Array(mac)),
+      signature
+    );
+  } catch {
+    rackyLog("[twilio] signature check failed");
+    return false;
+  }
+}
@@ -0,0 +1,72 @@
+import { TWILIO_API_BASE } from "../config/config";
+import type { Env } from "../config/env";
+import { DEFAULT_LANGUAGE, Language, messagesFor } from "../i18n/catalog";
+import type { Tenant } from "../tenants/registry";
+import { rackyError, rackyLog } from "../utils/log";
+import { findOrCreateDirectConversation, twilioPost } from "./helpers";
+
+// Only recordings of our own account are linked in the thread
+export function isAccountRecordingUrl(env: Env, raw: string): boolean {
+  try {
+    const url = new URL(raw);
+    const prefix = `${TWILIO_API_BASE}/Accounts/${env.TWILIO_ACCOUNT_SID}/Recordings/`;
+    return (
+      !!env.TWILIO_ACCOUNT_SID &&
+      url.href.startsWith(prefix) &&
+      /^RE[0-9a-f]{32}$/i.test(url.href.slice(prefix.length))
+    );
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Posts a voicemail left on the fallback line to the caller's 1:1
+ * Conversations thread, so the team and the SMS bot see it there.
+ */
+export async function postVoicemailToThread(
+  env: Env,
+  options: {
+    tenant: Tenant;
+    callerE164: string;
+    recordingUrl: string;
+    durationSec: number | null;
+    language?: Language;
+  }
+): Promise<boolean> {
+  if (!isAccountRecordingUrl(env, options.recordingUrl)) {
+    rackyError("[voicemail] rejected recording URL", options.recordingUrl);
+    return false;
+  }
+  try {
+    const conversationSid = await findOrCreateDirectConversation(
+      env,
+      options.callerE164,
+      options.tenant
+    );
+    if (!conversationSid) return false;
+    const length =
+      options.durationSec != null ? ` (${options.durationSec}s)` : "";
+    const body = messagesFor(options.language ?? DEFAULT_LANGUAGE).smsVoicemail(
+      length,
+      `${options.recordingUrl}.mp3`
+    );
+    const res = await twilioPost(
+      env,
+      `/Conversations/${conversationSid}/Messages`,
+      new URLSearchParams({ Author: options.tenant.botIdentity, Body: body })
+    );
+    if (!res.ok) {
+      rackyError("[voicemail] failed to post message", await res.text());
+      return false;
+    }
+    rackyLog("[voicemail] posted", {
+      conversationSid,
+      caller: options.callerE164,
+    });
+    return true;
+  } catch (e) {
+    rackyError("[voicemail] post error", options.callerE164, e);
+    return false;
+  }
+}
@@ -1,4 +1,5 @@
 import type { Env } from "../config/env";
+import type { RelayTokenClaims } from "../tokens/relay";
 import { base64ToBytes, base64UrlToBytes } from "./base64";
 import { rackyLog } from "./log";
 
@@ -48,48 +49,90 @@ async function decryptAesGcm(
   return new Uint8Array(plain);
 }
 
-export async function validateAuth(
+export type RelayTokenPayload = {
+  iat: number;
+  exp: number;
+  origin: string;
+  nonce: string;
+  claims?: RelayTokenClaims;
+};
+
+/**
+ * Validates a relay token and returns its payload (including any per-call
+ * claims), or null when the token is missing, expired or for another origin.
+ */
+export async function readAuthPayload(
   authParam: string | null,
   env: Env,
   expectedOrigin: "twilio" | "client"
-): Promise<boolean> {
+): Promise<RelayTokenPayload | null> {
   try {
     if (!authParam) {
       rackyLog("[auth] missing token");
-      return false;
+      return null;
     }
     if (!env.ENCRYPTION_KEY) {
       rackyLog("[auth] missing ENCRYPTION_KEY");
-      return false;
+      return null;
     }
     const key = base64ToBytes(env.ENCRYPTION_KEY);
     const encrypted = base64UrlToBytes(authParam);
     const plaintext = await decryptAesGcm(encrypted, key);
-    const decoded = JSON.parse(new TextDecoder().decode(plaintext)) as {
-      iat: number;
-      exp: number;
-      origin: string;
-      nonce: string;
-    };
+    const decoded = JSON.parse(
+      new TextDecoder().decode(plaintext)
+    ) as RelayTokenPayload;
     const now = Date.now();
     if (decoded.exp < now) {
       rackyLog("[auth] token expired", { exp: decoded.exp, now });
-      return false;
+      return null;
     }
     if (decoded.iat > now + 30_000) {
       rackyLog("[auth] token iat too far in future", { iat: decoded.iat, now });
-      return false;
+      return null;
     }
     if (decoded.origin !== expectedOrigin) {
       rackyLog("[auth] origin mismatch", {
         expected: expectedOrigin,
         got: decoded.origin,
       });
-      return false;
+      return null;
     }
-    return true;
+    return decoded;
   } catch {
     rackyLog("[auth] token decrypt/parse failed");
+    return null;
+  }
+}
+
+export async function validateAuth(
+  authParam: string | null,
+  env: Env,
+  expectedOrigin: "twilio" | "client"
+): Promise<boolean> {
+  return (await readAuthPayload(authParam, env, expectedOrigin)) !== null;
+}
+
+export function timingSafeEqualStrings(a: string, b: string): boolean {
+  const aBytes = new TextEncoder().encode(a);
+  const bBytes = new TextEncoder().encode(b);
+  let diff = aBytes.length ^ bBytes.length;
+  for (let i = 0; i < aBytes.length; i++) {
+    diff |= aBytes[i] ^ (bBytes[i % Math.max(1, bBytes.length)] ?? 0);
+  }
+  return diff === 0;
+}
+
+// Admin APIs accept `Authorization: Bearer <ADMIN_API_KEY>` or `?key=`
+export function isAdminRequest(request: Request, env: Env): boolean {
+  if (!env.ADMIN_API_KEY) {
+    rackyLog("[auth] missing ADMIN_API_KEY");
     return false;
   }
+  const header = request.headers.get("Authorization") || "";
+  const bearer = header.toLowerCase().startsWith("bearer ")
+    ? header.slice(7).trim()
+    : "";
+  const provided = bearer || new URL(request.url).searchParams.get("key") || "";
+  if (!provided) return false;
+  return timingSafeEqualStrings(provided, env.ADMIN_API_KEY);
 }
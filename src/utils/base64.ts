@@ -32,4 +32,11 @@ export function base64ToBytes(b64: string): Uint8Array {
   return bytes;
 }
 
-
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = "";
+  // Chunked so long buffers don't overflow the argument list
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
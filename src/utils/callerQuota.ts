@@ -0,0 +1,133 @@
+import { CALLER_DAILY_MINUTES, CALLER_MONTHLY_MINUTES } from "../config/config";
+import { rackyError } from "./log";
+
+// Talk time used by one caller number, per UTC day and month
+export type CallerUsage = {
+  day: string; // YYYY-MM-DD
+  dayMs: number;
+  month: string; // YYYY-MM
+  monthMs: number;
+};
+
+export type CallerQuotaStatus = {
+  dailyRemainingMs: number;
+  monthlyRemainingMs: number;
+  exhausted: "daily" | "monthly" | null;
+};
+
+const USAGE_KEY = "usage";
+
+// Usage for the current periods; a new day or month starts from zero
+function currentUsage(stored: CallerUsage | undefined, now: Date): CallerUsage {
+  const day = now.toISOString().slice(0, 10);
+  const month = day.slice(0, 7);
+  return {
+    day,
+    dayMs: stored?.day === day ? stored.dayMs : 0,
+    month,
+    monthMs: stored?.month === month ? stored.monthMs : 0,
+  };
+}
+
+function quotaStatus(usage: CallerUsage): CallerQuotaStatus {
+  const dailyRemainingMs = Math.max(
+    0,
+    CALLER_DAILY_MINUTES * 60_000 - usage.dayMs
+  );
+  const monthlyRemainingMs = Math.max(
+    0,
+    CALLER_MONTHLY_MINUTES * 60_000 - usage.monthMs
+  );
+  return {
+    dailyRemainingMs,
+    monthlyRemainingMs,
+    exhausted:
+      monthlyRemainingMs <= 0
+        ? "monthly"
+        : dailyRemainingMs <= 0
+          ? "daily"
+          : null,
+  };
+}
+
+// Durable Object implementation, one instance per caller number
+export class CallerQuota {
+  private readonly state: DurableObjectState;
+
+  constructor(state: DurableObjectState, _env: unknown) {
+    this.state = state;
+  }
+
+  async fetch(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+    const usage = currentUsage(
+      await this.state.storage.get<CallerUsage>(USAGE_KEY),
+      new Date()
+    );
+    if (url.pathname === "/consume" && request.method === "POST") {
+      let durationMs = 0;
+      try {
+        const body = (await request.json()) as { durationMs?: number };
+        durationMs = Number(body.durationMs);
+      } catch {}
+      if (!Number.isFinite(durationMs) || durationMs < 0) {
+        return new Response("Bad Request", { status: 400 });
+      }
+      usage.dayMs += durationMs;
+      usage.monthMs += durationMs;
+      await this.state.storage.put(USAGE_KEY, usage);
+    } else if (url.pathname !== "/status" || request.method !== "GET") {
+      return new Response("Not Found", { status: 404 });
+    }
+    return new Response(JSON.stringify(quotaStatus(usage)), {
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+}
+
+type QuotaEnv = { CALLER_QUOTAS?: DurableObjectNamespace };
+
+function quotaStub(
+  ns: DurableObjectNamespace,
+  callerE164: string
+): DurableObjectStub {
+  return ns.get(ns.idFromName(`caller:${callerE164}`));
+}
+
+/**
+ * Checked by the voice webhook before connecting a caller. Fails open:
+ * without the binding, or if the lookup fails, the call goes through.
+ */
+export async function getCallerQuota(
+  env: QuotaEnv,
+  callerE164: string
+): Promise<CallerQuotaStatus | null> {
+  const ns = env.CALLER_QUOTAS;
+  if (!ns || !callerE164.startsWith("+")) return null;
+  try {
+    const res = await quotaStub(ns, callerE164).fetch("https://do/status");
+    if (!res.ok) return null;
+    return (await res.json()) as CallerQuotaStatus;
+  } catch (e) {
+    rackyError("[caller-quota] status failed", callerE164, e);
+    return null;
+  }
+}
+
+// Called by the bridge when the call's socket closes
+export async function recordCallerUsage(
+  env: QuotaEnv,
+  callerE164: string,
+  durationMs: number
+): Promise<void> {
+  const ns = env.CALLER_QUOTAS;
+  if (!ns || !callerE164.startsWith("+") || durationMs <= 0) return;
+  try {
+    await quotaStub(ns, callerE164).fetch("https://do/consume", {
+      method: "POST",
+      body: JSON.stringify({ durationMs: Math.round(durationMs) }),
+    });
+  } catch (e) {
+    rackyError("[caller-quota] consume failed", callerE164, e);
+  }
+}
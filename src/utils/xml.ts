@@ -8,7 +8,8 @@ export function xmlEscapeAttr(value: string): string {
 
 export function buildTwimlConnectStream(
   relayUrl: string,
-  parameters?: Record<string, string>
+  parameters?: Record<string, string>,
+  options?: { sayText?: string; sayLanguage?: string }
 ): string {
   const safeUrl = xmlEscapeAttr(relayUrl);
   const paramXml = parameters
@@ -22,11 +23,285 @@ export function buildTwimlConnectStream(
         .join("")
     : "";
 
+  const sayXml = options?.sayText
+    ? `\t${sayElement(options.sayText, options.sayLanguage)}\n`
+    : "";
+
   return `<?xml version="1.0" encoding="UTF-8"?>
 <Response>
-\t<Connect>
+${sayXml}\t<Connect>
 \t\t<Stream url="${safeUrl}">${paramXml}
 \t\t</Stream>
 \t</Connect>
 </Response>`;
 }
+
+export function xmlEscapeText(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
+
+function sayElement(text: string, language?: string): string {
+  return twimlElement("Say", { language }, xmlEscapeText(text));
+}
+
+function twimlDocument(body: string): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<Response>
+${body}
+</Response>`;
+}
+
+// One TwiML verb for buildTwiml; attribute names follow Twilio's
+export type TwimlVerb =
+  | { verb: "Say"; text: string; voice?: string; language?: string }
+  | { verb: "Play"; url: string }
+  | { verb: "Pause"; length: number }
+  | {
+      verb: "Record";
+      action: string;
+      maxLength: number;
+      playBeep?: boolean;
+      timeout?: number;
+    }
+  | {
+      verb: "Dial";
+      number: string;
+      action?: string;
+      timeout?: number;
+      callerId?: string;
+    }
+  | { verb: "Enqueue"; name: string; action: string; waitUrl: string }
+  | {
+      verb: "Gather";
+      action: string;
+      numDigits: number;
+      timeout: number;
+      input?: string;
+      prompt?: { text: string; language?: string };
+    }
+  | { verb: "Leave" }
+  | { verb: "Redirect"; url: string }
+  | { verb: "Hangup" };
+
+type TwimlAttrs = Record<string, string | number | boolean | undefined>;
+
+function twimlElement(name: string, attrs: TwimlAttrs, body?: string): string {
+  const attrXml = Object.entries(attrs)
+    .filter(([, v]) => v !== undefined)
+    .map(([k, v]) => ` ${k}="${xmlEscapeAttr(String(v))}"`)
+    .join("");
+  return body === undefined
+    ? `<${name}${attrXml} />`
+    : `<${name}${attrXml}>${body}</${name}>`;
+}
+
+function renderTwimlVerb(v: TwimlVerb): string {
+  switch (v.verb) {
+    case "Say":
+      return twimlElement(
+        "Say",
+        { voice: v.voice, language: v.language },
+        xmlEscapeText(v.text)
+      );
+    case "Play":
+      return twimlElement("Play", {}, xmlEscapeText(v.url));
+    case "Pause":
+      return twimlElement("Pause", { length: v.length });
+    case "Record":
+      return twimlElement("Record", {
+        action: v.action,
+        method: "POST",
+        maxLength: v.maxLength,
+        timeout: v.timeout,
+        playBeep: v.playBeep ?? true,
+      });
+    case "Dial":
+      return twimlElement(
+        "Dial",
+        {
+          action: v.action,
+          method: v.action ? "POST" : undefined,
+          timeout: v.timeout,
+          callerId: v.callerId,
+        },
+        `\n\t\t<Number>${xmlEscapeText(v.number)}</Number>\n\t`
+      );
+    case "Enqueue":
+      return twimlElement(
+        "Enqueue",
+        {
+          action: v.action,
+          method: "POST",
+          waitUrl: v.waitUrl,
+          waitUrlMethod: "POST",
+        },
+        xmlEscapeText(v.name)
+      );
+    case "Gather":
+      return twimlElement(
+        "Gather",
+        {
+          input: v.input,
+          action: v.action,
+          method: "POST",
+          numDigits: v.numDigits,
+          timeout: v.timeout,
+        },
+        v.prompt
+          ? `\n\t\t${sayElement(v.prompt.text, v.prompt.language)}\n\t`
+          : undefined
+      );
+    case "Leave":
+      return twimlElement("Leave", {});
+    case "Redirect":
+      return twimlElement("Redirect", { method: "POST" }, xmlEscapeText(v.url));
+    case "Hangup":
+      return twimlElement("Hangup", {});
+  }
+}
+
+// General-purpose document for responses that do not connect a media stream
+export function buildTwiml(verbs: TwimlVerb[]): string {
+  return twimlDocument(verbs.map((v) => `\t${renderTwimlVerb(v)}`).join("\n"));
+}
+
+export function buildTwimlTransfer(options: {
+  target: { kind: "number"; number: string } | { kind: "queue"; name: string };
+  actionUrl: string;
+  waitUrl: string;
+  timeoutSec: number;
+  callerId?: string;
+  sayText?: string;
+  sayLanguage?: string;
+}): string {
+  const { target } = options;
+  return buildTwiml([
+    ...(options.sayText
+      ? [
+          {
+            verb: "Say",
+            text: options.sayText,
+            language: options.sayLanguage,
+          } as const,
+        ]
+      : []),
+    target.kind === "queue"
+      ? {
+          verb: "Enqueue",
+          name: target.name,
+          action: options.actionUrl,
+          waitUrl: options.waitUrl,
+        }
+      : {
+          verb: "Dial",
+          number: target.number,
+          action: options.actionUrl,
+          timeout: options.timeoutSec,
+          callerId: options.callerId,
+        },
+  ]);
+}
+
+export function buildTwimlQueueWait(
+  sayText: string,
+  leave: boolean,
+  sayLanguage?: string
+): string {
+  if (leave) return buildTwiml([{ verb: "Leave" }]);
+  return buildTwiml([
+    { verb: "Say", text: sayText, language: sayLanguage },
+    { verb: "Pause", length: 10 },
+  ]);
+}
+
+export function buildTwimlRecordVoicemail(options: {
+  sayText: string;
+  sayLanguage?: string;
+  actionUrl: string;
+  maxLengthSec: number;
+}): string {
+  return buildTwiml([
+    { verb: "Say", text: options.sayText, language: options.sayLanguage },
+    {
+      verb: "Record",
+      action: options.actionUrl,
+      maxLength: options.maxLengthSec,
+    },
+  ]);
+}
+
+export function buildTwimlSayHangup(
+  sayText?: string,
+  sayLanguage?: string
+): string {
+  return buildTwiml([
+    ...(sayText
+      ? [{ verb: "Say", text: sayText, language: sayLanguage } as const]
+      : []),
+    { verb: "Hangup" },
+  ]);
+}
+
+export function buildTwimlGatherMenu(options: {
+  prompt: string;
+  sayLanguage?: string;
+  actionUrl: string;
+  timeoutSec: number;
+  numDigits?: number;
+}): string {
+  return buildTwiml([
+    {
+      verb: "Gather",
+      action: options.actionUrl,
+      numDigits: options.numDigits ?? 1,
+      timeout: options.timeoutSec,
+      prompt: { text: options.prompt, language: options.sayLanguage },
+    },
+    { verb: "Redirect", url: options.actionUrl },
+  ]);
+}
+
+// Silent keypad entry of a fixed length, posted to actionUrl; hangs up without
+export function buildTwimlGatherDigits(options: {
+  actionUrl: string;
+  numDigits: number;
+  timeoutSec: number;
+}): string {
+  return buildTwiml([
+    {
+      verb: "Gather",
+      input: "dtmf",
+      action: options.actionUrl,
+      numDigits: options.numDigits,
+      timeout: options.timeoutSec,
+    },
+    { verb: "Hangup" },
+  ]);
+}
+
+// Joins the call to a named conference; events go to statusCallbackUrl
+export function buildTwimlJoinConference(options: {
+  name: string;
+  statusCallbackUrl: string;
+  participantLabel?: string;
+  endOnExit?: boolean;
+}): string {
+  const conference = twimlElement(
+    "Conference",
+    {
+      participantLabel: options.participantLabel,
+      startConferenceOnEnter: true,
+      endConferenceOnExit: options.endOnExit ?? false,
+      beep: false,
+      waitUrl: "",
+      statusCallback: options.statusCallbackUrl,
+      statusCallbackMethod: "POST",
+      statusCallbackEvent: "start end join leave speaker",
+    },
+    xmlEscapeText(options.name)
+  );
+  return twimlDocument(`\t<Dial>\n\t\t${conference}\n\t</Dial>`);
+}